@@ -6,6 +6,7 @@ import '@vaadin-component-factory/vcf-anchor-nav';
 import '@api-viewer/docs';
 import '@api-viewer/demo';
 import '../out-tsc/vcf-slider.js';
+import '../out-tsc/vcf-slider-2d.js';
 
 const show = () => {
   requestAnimationFrame(() => {
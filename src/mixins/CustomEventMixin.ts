@@ -1,22 +1,61 @@
 export type Constructor<T = HTMLElement> = new (...args: any[]) => T;
 
-export type ValueChangedEvent = CustomEvent<{ index: number; value: number; values: number[] }>;
+export type ValueChangeSource = 'pointer' | 'keyboard' | 'api';
+
+/** Values are numbers, or ISO strings when the slider `type` is `date` or `datetime`. */
+export interface ValueChangedDetail {
+  index: number;
+  value: number | string;
+  values: (number | string)[];
+  oldValues: (number | string)[];
+  source: ValueChangeSource;
+  label?: string;
+  labels: (string | undefined)[];
+}
+
+export type ValueChangedEvent = CustomEvent<ValueChangedDetail>;
+
+export type ValueChangingEvent = CustomEvent<ValueChangedDetail>;
+
+export type SliderInputEvent = CustomEvent<ValueChangedDetail>;
+
+export type SliderChangeEvent = CustomEvent<ValueChangedDetail>;
+
+export interface Slider2DValueChangedDetail {
+  x: number;
+  y: number;
+  source: ValueChangeSource;
+}
+
+export type Slider2DValueChangedEvent = CustomEvent<Slider2DValueChangedDetail>;
 
 export enum CustomEvents {
   valueChanged = 'value-changed',
+  valueChanging = 'value-changing',
+  input = 'input',
+  change = 'change',
 }
 
 export interface SliderCustomEventMap {
   [CustomEvents.valueChanged]: ValueChangedEvent;
+  [CustomEvents.valueChanging]: ValueChangingEvent;
+  [CustomEvents.input]: SliderInputEvent;
+  [CustomEvents.change]: SliderChangeEvent;
 }
 
-export interface SliderEventMap extends HTMLElementEventMap, SliderCustomEventMap {}
+export interface SliderEventMap extends Omit<HTMLElementEventMap, 'input' | 'change'>, SliderCustomEventMap {}
+
+export interface Slider2DEventMap extends HTMLElementEventMap {
+  [CustomEvents.valueChanged]: Slider2DValueChangedEvent;
+}
 
-export function CustomEventMixin<TElement extends Constructor>(BaseElement: TElement) {
+export function CustomEventMixin<TElement extends Constructor, TEventMap extends HTMLElementEventMap = SliderEventMap>(
+  BaseElement: TElement
+) {
   return class CustomEventTarget extends BaseElement {
-    addEventListener<K extends keyof SliderEventMap>(
+    addEventListener<K extends keyof TEventMap & string>(
       type: K,
-      listener: (this: CustomEventTarget, e: SliderEventMap[K]) => void,
+      listener: (this: CustomEventTarget, e: TEventMap[K]) => void,
       options?: AddEventListenerOptions | boolean
     ): void;
 
@@ -29,9 +68,9 @@ export function CustomEventMixin<TElement extends Constructor>(BaseElement: TEle
       super.addEventListener(type, listener, options);
     }
 
-    removeEventListener<K extends keyof SliderEventMap>(
+    removeEventListener<K extends keyof TEventMap & string>(
       type: K,
-      listener: (this: CustomEventTarget, e: SliderEventMap[K]) => void,
+      listener: (this: CustomEventTarget, e: TEventMap[K]) => void,
       options?: EventListenerOptions | boolean
     ): void;
 
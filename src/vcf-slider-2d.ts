@@ -0,0 +1,386 @@
+import { html, css, PropertyValues, LitElement } from 'lit';
+import { when } from 'lit/directives/when.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { query, property, customElement } from 'lit/decorators.js';
+import {
+  CustomEventMixin,
+  CustomEvents,
+  Slider2DEventMap,
+  Slider2DValueChangedEvent,
+  ValueChangeSource,
+} from './mixins/CustomEventMixin';
+import { ThemableMixin } from '@vaadin/vaadin-themable-mixin';
+import { scaleLinear } from 'd3-scale';
+import { axisBottom, axisLeft } from 'd3-axis';
+import { select } from 'd3-selection';
+
+const Slider2DBase = ThemableMixin(LitElement);
+
+/**
+ * `<vcf-slider-2d>` Two-axis slider web component for picking an X/Y pair.
+ *
+ * @csspart pad - Two-dimensional area the knob moves on.
+ * @csspart knob - Knob element.
+ * @csspart axis - SVG elements used for axes.
+ * @csspart axis-x - SVG element used for the X axis.
+ * @csspart axis-y - SVG element used for the Y axis.
+ *
+ * @cssprop [--vcf-slider-knob-color=var(--lumo-primary-color)] - Color of `::part(knob)`.
+ * @cssprop [--vcf-slider-knob-size=var(--lumo-space-m)] - Size (width, height) of `::part(knob)`.
+ * @cssprop [--vcf-slider-padding=var(--lumo-space-xs)] - Padding of `:host`.
+ * @cssprop [--vcf-slider-width=100%] - Width of `:host`.
+ * @cssprop [--vcf-slider-2d-height=200px] - Height of `::part(pad)`.
+ *
+ * @event {Slider2DValueChangedEvent} value-changed - Fired when the `x` or `y` value changes. Returns both values and the `source` of the change.
+ */
+@customElement('vcf-slider-2d')
+export class Slider2D extends CustomEventMixin<typeof Slider2DBase, Slider2DEventMap>(Slider2DBase) {
+  /** Value on the X axis. */
+  @property({ type: Number }) x = 0;
+
+  /** Value on the Y axis. */
+  @property({ type: Number }) y = 0;
+
+  /** Minimum value on the X axis. */
+  @property({ type: Number, attribute: 'min-x' }) minX = 0;
+
+  /** Maximum value on the X axis. */
+  @property({ type: Number, attribute: 'max-x' }) maxX = 100;
+
+  /** Granularity of values on the X axis. */
+  @property({ type: Number, attribute: 'step-x' }) stepX = 1;
+
+  /** Minimum value on the Y axis. */
+  @property({ type: Number, attribute: 'min-y' }) minY = 0;
+
+  /** Maximum value on the Y axis. */
+  @property({ type: Number, attribute: 'max-y' }) maxY = 100;
+
+  /** Granularity of values on the Y axis. */
+  @property({ type: Number, attribute: 'step-y' }) stepY = 1;
+
+  /** If `true`, show axes along the bottom and left edges of the pad. */
+  @property({ type: Boolean, reflect: true }) axes = false;
+
+  /** String used for the label element. */
+  @property({ type: String, reflect: true }) label?: string;
+
+  /** If `true`, the slider cannot be interacted with. */
+  @property({ type: Boolean, reflect: true }) disabled = false;
+
+  @query('#pad') private $pad!: HTMLElement;
+  @query('#knob') private $knob!: HTMLElement;
+  @query('#axis-x') private $axisX!: SVGSVGElement;
+  @query('#axis-y') private $axisY!: SVGSVGElement;
+
+  private dragPointerId?: number;
+  private dragOffset = { x: 0, y: 0 };
+  private valueSource: ValueChangeSource = 'api';
+
+  protected static is() {
+    return 'vcf-slider-2d';
+  }
+
+  static get styles() {
+    return css`
+      :host {
+        display: flex;
+        flex-flow: column;
+        margin: var(--lumo-space-s) 0;
+        padding: var(--vcf-slider-padding);
+        width: var(--vcf-slider-width);
+        box-sizing: border-box;
+        /* PUBLIC PROPERTIES */
+        --vcf-slider-knob-color: var(--lumo-primary-color);
+        --vcf-slider-knob-size: var(--lumo-space-m);
+        --vcf-slider-padding: var(--lumo-space-xs);
+        --vcf-slider-width: 100%;
+        --vcf-slider-2d-height: 200px;
+        /* PRIVATE PROPERTIES */
+        --k-size: calc(var(--vcf-slider-knob-size) * 2);
+      }
+
+      :host * {
+        box-sizing: border-box;
+      }
+
+      #slider {
+        display: grid;
+        grid-template-columns: auto 1fr;
+        grid-template-rows: var(--vcf-slider-2d-height) auto;
+      }
+
+      #pad {
+        grid-column: 2;
+        grid-row: 1;
+        position: relative;
+        border-radius: var(--lumo-border-radius-m);
+        background-color: var(--lumo-contrast-10pct);
+        cursor: crosshair;
+        touch-action: none;
+      }
+
+      /* KNOB */
+
+      [part~='knob'] {
+        position: absolute;
+        display: flex;
+        width: var(--k-size);
+        height: var(--k-size);
+        transform: translate(-50%, -50%);
+        outline: none;
+        user-select: none;
+      }
+
+      [part~='knob']::after {
+        content: '';
+        width: var(--vcf-slider-knob-size);
+        height: var(--vcf-slider-knob-size);
+        border-radius: var(--lumo-border-radius-l);
+        box-shadow: var(--lumo-box-shadow-s);
+        background-color: var(--vcf-slider-knob-color);
+        margin: auto;
+      }
+
+      [part~='knob']:focus-visible::after {
+        box-shadow: 0 0 0 3px var(--lumo-primary-color-50pct);
+      }
+
+      /* AXES */
+
+      #axis-x {
+        grid-column: 2;
+        grid-row: 2;
+        width: 100%;
+        height: 20px;
+        overflow: visible;
+      }
+
+      #axis-y {
+        grid-column: 1;
+        grid-row: 1;
+        width: 30px;
+        height: 100%;
+        overflow: visible;
+      }
+
+      [part~='axis'] path {
+        display: none;
+      }
+
+      /* DISABLED */
+
+      :host([disabled]) {
+        pointer-events: none;
+      }
+
+      :host([disabled]) #pad {
+        opacity: 0.5;
+      }
+
+      :host([disabled]) [part~='knob']::after {
+        background-color: var(--lumo-contrast-30pct);
+        box-shadow: none;
+      }
+
+      /* LABEL */
+
+      label {
+        align-self: flex-start;
+        color: var(--lumo-secondary-text-color);
+        font-weight: 500;
+        font-size: var(--lumo-font-size-s);
+        margin-left: calc(var(--lumo-border-radius-m) / 4);
+        line-height: 1;
+        padding-bottom: 0.8em;
+      }
+
+      :host([disabled]) label {
+        color: var(--lumo-disabled-text-color);
+      }
+    `;
+  }
+
+  render() {
+    return html`
+      ${when(this.label, () => html`<label id="label">${this.label}</label>`)}
+      <div id="slider">
+        ${when(this.axes, () => html`<svg id="axis-y" part="axis axis-y" aria-hidden="true"><g></g></svg>`)}
+        <div
+          id="pad"
+          part="pad"
+          @pointerdown="${this.startDrag}"
+          @pointermove="${this.drag}"
+          @pointerup="${this.endDrag}"
+          @pointercancel="${this.endDrag}"
+          @lostpointercapture="${this.endDrag}"
+        >
+          <div
+            id="knob"
+            part="knob"
+            role="slider"
+            aria-roledescription="2D slider"
+            aria-label="${ifDefined(this.label ? undefined : 'Value')}"
+            aria-labelledby="${ifDefined(this.label ? 'label' : undefined)}"
+            aria-valuemin="${this.minX}"
+            aria-valuemax="${this.maxX}"
+            aria-valuenow="${this.x}"
+            aria-valuetext="X ${this.x}, Y ${this.y}"
+            aria-disabled="${this.disabled}"
+            tabindex="${this.disabled ? -1 : 0}"
+            @keydown="${this.keyMove}"
+          ></div>
+        </div>
+        ${when(this.axes, () => html`<svg id="axis-x" part="axis axis-x" aria-hidden="true"><g></g></svg>`)}
+      </div>
+    `;
+  }
+
+  protected firstUpdated() {
+    const observer = new ResizeObserver(() => requestAnimationFrame(() => this.setAxes()));
+    observer.observe(this);
+  }
+
+  protected willUpdate(props: PropertyValues) {
+    const { x, y, minX, maxX, stepX, minY, maxY, stepY } = this;
+    if (props.has('x') || props.has('minX') || props.has('maxX') || props.has('stepX')) {
+      // Keep values within the range and on step, also when set programmatically
+      this.x = Slider2D.snap(x, minX, maxX, stepX);
+    }
+    if (props.has('y') || props.has('minY') || props.has('maxY') || props.has('stepY')) {
+      this.y = Slider2D.snap(y, minY, maxY, stepY);
+    }
+  }
+
+  protected updated(props: PropertyValues) {
+    if (
+      props.has('x') ||
+      props.has('y') ||
+      props.has('minX') ||
+      props.has('maxX') ||
+      props.has('minY') ||
+      props.has('maxY')
+    ) {
+      this.setKnobPosition();
+    }
+
+    if (props.has('axes') || props.has('minX') || props.has('maxX') || props.has('minY') || props.has('maxY')) {
+      this.setAxes();
+    }
+
+    // Skip the initial values
+    if (props.get('x') !== undefined || props.get('y') !== undefined) {
+      const { x, y, valueSource: source } = this;
+      this.valueSource = 'api';
+      this.dispatchEvent(
+        new CustomEvent(CustomEvents.valueChanged, { detail: { x, y, source } }) as Slider2DValueChangedEvent
+      );
+    }
+  }
+
+  private setKnobPosition() {
+    const { $knob, x, y, minX, maxX, minY, maxY } = this;
+    if ($knob) {
+      $knob.style.left = `${Slider2D.toRatio(x, minX, maxX) * 100}%`;
+      // Y values grow upwards
+      $knob.style.top = `${(1 - Slider2D.toRatio(y, minY, maxY)) * 100}%`;
+    }
+  }
+
+  private setAxes() {
+    const { $pad, $axisX, $axisY, minX, maxX, minY, maxY } = this;
+    if (!$pad || !$axisX || !$axisY) return;
+    const x = scaleLinear().domain([minX, maxX]).range([0, $pad.clientWidth]);
+    const y = scaleLinear().domain([minY, maxY]).range([$pad.clientHeight, 0]);
+    axisBottom(x)(select($axisX).select<SVGGElement>('g'));
+    // Left axis is drawn to the left of its origin
+    axisLeft(y)(
+      select($axisY)
+        .select<SVGGElement>('g')
+        .attr('transform', `translate(${$axisY.clientWidth - 1}, 0)`)
+    );
+  }
+
+  private static toRatio(value: number, min: number, max: number) {
+    return max > min ? Math.min(Math.max((value - min) / (max - min), 0), 1) : 0;
+  }
+
+  private static snap(value: number, min: number, max: number, step: number) {
+    const decimals = `${step}`.split('.')[1]?.length || 0;
+    const snapped = step > 0 ? min + Math.round((value - min) / step) * step : value;
+    return parseFloat(Math.min(Math.max(snapped, min), max).toFixed(decimals));
+  }
+
+  private setValues(x: number, y: number, source: ValueChangeSource) {
+    const { minX, maxX, stepX, minY, maxY, stepY } = this;
+    const newX = Slider2D.snap(x, minX, maxX, stepX);
+    const newY = Slider2D.snap(y, minY, maxY, stepY);
+    if (newX !== this.x || newY !== this.y) {
+      this.valueSource = source;
+      this.x = newX;
+      this.y = newY;
+    }
+  }
+
+  private setValuesFromPointer(e: PointerEvent) {
+    const { $pad, minX, maxX, minY, maxY } = this;
+    const bounds = $pad.getBoundingClientRect();
+    const ratioX = Slider2D.toRatio(e.clientX - this.dragOffset.x - bounds.left, 0, bounds.width);
+    const ratioY = 1 - Slider2D.toRatio(e.clientY - this.dragOffset.y - bounds.top, 0, bounds.height);
+    this.setValues(minX + ratioX * (maxX - minX), minY + ratioY * (maxY - minY), 'pointer');
+  }
+
+  private startDrag = (e: PointerEvent) => {
+    // Ignore secondary mouse buttons
+    if (this.disabled || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    e.preventDefault();
+    this.$knob.focus();
+    this.$pad.setPointerCapture(e.pointerId);
+    this.dragPointerId = e.pointerId;
+    this.toggleAttribute('dragging', true);
+    if (e.target === this.$knob) {
+      // Drag the knob relative to where it was pressed instead of centering it on the pointer
+      const knobBounds = this.$knob.getBoundingClientRect();
+      this.dragOffset = {
+        x: e.clientX - (knobBounds.left + knobBounds.width / 2),
+        y: e.clientY - (knobBounds.top + knobBounds.height / 2),
+      };
+    } else {
+      this.dragOffset = { x: 0, y: 0 };
+      this.setValuesFromPointer(e);
+    }
+  };
+
+  private drag = (e: PointerEvent) => {
+    if (e.pointerId === this.dragPointerId) this.setValuesFromPointer(e);
+  };
+
+  private endDrag = (e: PointerEvent) => {
+    if (e.pointerId !== this.dragPointerId) return;
+    if (this.$pad.hasPointerCapture(e.pointerId)) this.$pad.releasePointerCapture(e.pointerId);
+    this.dragPointerId = undefined;
+    this.toggleAttribute('dragging', false);
+  };
+
+  private keyMove = (e: KeyboardEvent) => {
+    const { x, y, stepX, stepY } = this;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-stepX, 0],
+      ArrowRight: [stepX, 0],
+      ArrowUp: [0, stepY],
+      ArrowDown: [0, -stepY],
+    };
+    const move = moves[e.key];
+    if (!move || this.disabled) return;
+    e.preventDefault();
+    this.setValues(x + move[0], y + move[1], 'keyboard');
+  };
+}
+
+export { Slider2DValueChangedEvent };
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'vcf-slider-2d': Slider2D;
+  }
+}
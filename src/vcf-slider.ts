@@ -2,9 +2,29 @@ import { html, svg, css, PropertyValues, LitElement, render, TemplateResult, not
 import { when } from 'lit/directives/when.js';
 import { ifDefined } from 'lit/directives/if-defined.js';
 import { query, property, customElement } from 'lit/decorators.js';
-import { CustomEventMixin, CustomEvents, ValueChangedEvent } from './mixins/CustomEventMixin';
+import {
+  CustomEventMixin,
+  CustomEvents,
+  SliderChangeEvent,
+  SliderInputEvent,
+  ValueChangedDetail,
+  ValueChangedEvent,
+  ValueChangingEvent,
+  ValueChangeSource,
+} from './mixins/CustomEventMixin';
 import { ThemableMixin } from '@vaadin/vaadin-themable-mixin';
-import { scaleLinear } from 'd3-scale';
+import { scaleLinear, scaleLog, scalePow, scaleSqrt, scaleTime, ScaleContinuousNumeric } from 'd3-scale';
+import {
+  timeMillisecond,
+  timeSecond,
+  timeMinute,
+  timeHour,
+  timeDay,
+  timeWeek,
+  timeMonth,
+  timeYear,
+  CountableTimeInterval,
+} from 'd3-time';
 import { axisBottom, axisLeft } from 'd3-axis';
 import { select } from 'd3-selection';
 
@@ -14,27 +34,58 @@ import { select } from 'd3-selection';
  * @csspart container - Wrapper element.
  * @csspart knob - Knob elements.
  * @csspart knob-n - Nth knob element.
+ * @csspart segment - Filled segments of the slider line, one for each range or from the start to a single knob.
+ * @csspart segment-n - Nth filled segment.
+ * @csspart arc - SVG element drawing the arc of a `radial` slider.
+ * @csspart marks - Container of marks and zones on the slider line.
+ * @csspart mark - Point marks.
+ * @csspart mark-n - Nth point mark.
+ * @csspart mark-label - Point mark labels.
+ * @csspart zone - Highlighted zones.
+ * @csspart zone-n - Nth highlighted zone.
+ * @csspart zone-label - Zone labels.
+ * @csspart range - Draggable range segments between knobs, when `draggableRange` is enabled.
+ * @csspart range-n - Nth draggable range segment.
  * @csspart tooltip - Knob tooltip containers.
  * @csspart tooltip-n - Nth knob tooltip container.
  * @csspart tooltip-triangle - Knob tooltip triangle elements.
  * @csspart tooltip-triangle-n - Nth knob tooltip triangle element.
  * @csspart tooltip-value - Knob tooltip value elements.
  * @csspart tooltip-value-n - Nth knob tooltip value element.
+ * @csspart tooltip-merged - Tooltip replacing the overlapping tooltips of a range.
+ * @csspart tooltip-merged-n - Merged tooltip of the nth range.
+ * @csspart histogram - SVG element used for the histogram.
+ * @csspart histogram-bar - Histogram bars.
+ * @csspart histogram-bar-selected - Histogram bars inside the selected range.
  * @csspart ticks-container - SVG element used for ticks.
  * @csspart ticks - SVG group element where ticks are generated.
+ * @csspart minor-ticks - SVG group element where minor ticks are generated.
+ * @csspart tick - Tick elements.
+ * @csspart tick-major - Major (labeled) tick elements.
+ * @csspart tick-minor - Minor (unlabeled) tick elements.
+ * @csspart tick-label - Tick label elements.
+ * @csspart inputs - Container of the value input fields, when `inputs` is enabled.
+ * @csspart input - Value input fields.
+ * @csspart input-n - Value input field of the nth knob.
  *
  * @cssprop [--vcf-slider-knob-alt-color=var(--lumo-error-color)] - Color of `::part(alt-knob)`.
  * @cssprop [--vcf-slider-knob-color=var(--lumo-primary-color)] - Color of `::part(knob)`.
  * @cssprop [--vcf-slider-knob-size=var(--lumo-space-m)] - Size (width, height) of `::part(knob)`.
  * @cssprop [--vcf-slider-tooltip-font-size=var(--lumo-font-size-s)] - Font size of `::part(tooltip)`.
  * @cssprop [--vcf-slider-line-alt-color=var(--lumo-contrast-30pct)] - Secondary background color of `::part(container)`.
- * @cssprop [--vcf-slider-line-color=var(--lumo-contrast-50pct)] - Background color of `::part(container)`.
+ * @cssprop [--vcf-slider-line-color=var(--lumo-contrast-50pct)] - Background color of `::part(segment)`.
+ * @cssprop [--vcf-slider-segment-n-color] - Background color of `::part(segment-n)`, overrides `segmentColors`.
  * @cssprop [--vcf-slider-line-height=var(--lumo-space-s)] - Width of `::part(container)`.
  * @cssprop [--vcf-slider-padding=var(--lumo-space-xs)] - Padding of `:host`.
  * @cssprop [--vcf-slider-width=100%] - Width of `:host`.
  * @cssprop [--vcf-slider-ticks-padding=10px] - Padding for range slider when `ticks` are enabled.
+ * @cssprop [--vcf-slider-histogram-size=40px] - Height (width when `vertical`) of `::part(histogram)`.
+ * @cssprop [--vcf-slider-radial-size=200px] - Diameter of `::part(container)` when `radial`.
  *
- * @event {ValueChangedEvent} value-changed - Fired when the slider value changes. Returns a single knob value and index.
+ * @event {ValueChangedEvent} value-changed - Fired when the slider value changes. Returns a single knob value and index, old values, the `source` of the change and labels of `allowedValues`. Values are ISO strings when `type` is `date` or `datetime`.
+ * @event {ValueChangingEvent} value-changing - Fired before a user change is applied. Call `preventDefault()` to keep the old value or modify `detail.values` to change the proposed value.
+ * @event {SliderInputEvent} input - Fired continuously while the user changes the value by dragging or with the keyboard.
+ * @event {SliderChangeEvent} change - Fired when the user commits a value change, on pointer release or key press.
  */
 @customElement('vcf-slider')
 export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
@@ -44,36 +95,238 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
   /** If `true`, always show tooltips above slider knobs. */
   @property({ type: Boolean, reflect: true, attribute: 'tooltips-always-visible' }) tooltipsAlwaysVisible = false;
 
+  /**
+   * Side of the knobs where tooltips are shown. `top` and `bottom` apply to horizontal sliders, `start` and `end` to
+   * vertical sliders. With `auto`, tooltips flip to the opposite side when there is not enough space in the nearest
+   * scroll container. Defaults to `top`, or `end` when `vertical`.
+   */
+  @property({ type: String, reflect: true, attribute: 'tooltip-placement' }) tooltipPlacement?: TooltipPlacement;
+
+  /** Separator between the values of a merged tooltip, shown when the tooltips of a range overlap. */
+  @property({ type: String, attribute: 'tooltip-separator' }) tooltipSeparator = ' – ';
+
   /** If `true`, show ticks for values on range slider. */
   @property({ type: Boolean, reflect: true }) ticks = false;
 
+  /** Approximate number of ticks to show. Ignored when `tickValues` are set. */
+  @property({ type: Number, attribute: 'tick-count' }) tickCount?: number;
+
+  /** Values to show ticks for instead of generated ones. */
+  @property({ type: Array, attribute: 'tick-values' }) tickValues?: number[];
+
+  /** Number of unlabeled minor ticks to show between each pair of major ticks. */
+  @property({ type: Number, attribute: 'minor-ticks' }) minorTicks = 0;
+
+  /** Tick label text, either a function that returns the label for a value or an object that maps values to labels. */
+  @property({ type: Object, attribute: 'tick-labels' }) tickLabels?: TickLabels;
+
   /** If `true`, change *orientation* of the range slider from horizontal to vertical. */
   @property({ type: Boolean, reflect: true }) vertical = false;
 
   /** If `true`, reverse *direction* so that low to high values go from right to left. */
   @property({ type: Boolean, reflect: true }) rtl = false;
 
-  /** Current value(s) of the slider. */
-  @property({ type: String }) value: string | number | number[] = 0;
+  /**
+   * If `true`, place knobs on a circular arc from `startAngle` to `endAngle` instead of a straight line. Marks, the
+   * histogram and draggable ranges are not shown on the arc.
+   */
+  @property({ type: Boolean, reflect: true }) radial = false;
+
+  /** Angle in degrees where the arc of a `radial` slider starts, measured clockwise from the top. */
+  @property({ type: Number, attribute: 'start-angle' }) startAngle = 0;
+
+  /** Angle in degrees where the arc of a `radial` slider ends, measured clockwise from the top. */
+  @property({ type: Number, attribute: 'end-angle' }) endAngle = 360;
+
+  /**
+   * If `true`, the knob of a single value `radial` slider loops around from `max` to `min` (and back) when dragged
+   * or stepped past the end of the arc, e.g. for angles from 0 to 360.
+   */
+  @property({ type: Boolean, reflect: true }) wrap = false;
+
+  /** Current value(s) of the slider, ISO strings when `type` is `date` or `datetime`. */
+  @property({ type: String }) value: DateValue | DateValue[] = 0;
+
+  /**
+   * Type of the values. Use `date` or `datetime` to accept ISO strings or `Date`s for `min`, `max` and `value`, step
+   * by calendar units and show formatted dates in tooltips and ticks.
+   */
+  @property({ type: String, reflect: true }) type: SliderType = 'number';
+
+  /**
+   * Behavior when the track is pressed. Use `jump` to move the closest knob to the pointer and start dragging it,
+   * `step` to move the closest knob towards the pointer by one `pageStep`, or `none` to ignore track presses.
+   */
+  @property({ type: String, reflect: true, attribute: 'track-click' }) trackClick: TrackClick = 'jump';
+
+  /**
+   * If `true`, the segment between the two knobs of each range can be dragged (or moved with arrow keys when focused)
+   * to move both knobs together while keeping the range width.
+   */
+  @property({ type: Boolean, reflect: true, attribute: 'draggable-range' }) draggableRange = false;
+
+  /** Colors of the filled segments, for example `['green', 'yellow', 'red']` for a slider with three ranges. */
+  @property({ type: Array, attribute: 'segment-colors' }) segmentColors?: string[];
+
+  /**
+   * Marks shown on the slider line, either points (`{ value, label }`) or highlighted zones (`{ from, to, label, color }`).
+   */
+  @property({ type: Array }) marks?: SliderMark[];
+
+  /** If `true`, dragged knobs snap to marks and zone edges within half a knob of the pointer. */
+  @property({ type: Boolean, reflect: true, attribute: 'snap-to-marks' }) snapToMarks = false;
+
+  /**
+   * Data shown as a histogram above the slider line, either raw values that are counted into `bins`
+   * or pre-binned counts (`{ from, to, count }`).
+   */
+  @property({ type: Array }) histogram?: number[] | HistogramBin[];
+
+  /** Number of histogram bins raw `histogram` values are counted into. */
+  @property({ type: Number }) bins = 20;
 
   /** Number of ranges (knobs) to display on the slider. */
   @property({ type: Number }) ranges = 0;
 
-  /** Specifies the granularity that the value must adhere to. */
-  @property({ type: Number }) step = 1;
+  /**
+   * Specifies the granularity that the value must adhere to. Use calendar units such as `1 day`, `6 hours` or
+   * `1 month` when `type` is `date` or `datetime`, plain numbers count days or hours respectively.
+   */
+  @property({ type: String })
+  get step(): number {
+    const { stepValue } = this;
+    const count = typeof stepValue === 'number' ? stepValue : parseFloat(stepValue);
+    return isNaN(count) ? 1 : count;
+  }
+
+  set step(step: number | string) {
+    const oldValue = this.stepValue;
+    this.stepValue = step;
+    this.requestUpdate('step', oldValue);
+  }
+
+  /** Minimum distance between adjacent knobs, in milliseconds when `type` is `date` or `datetime`. */
+  @property({ type: Number, attribute: 'min-distance' }) minDistance = 0;
+
+  /** Maximum distance between adjacent knobs, in milliseconds when `type` is `date` or `datetime`. */
+  @property({ type: Number, attribute: 'max-distance' }) maxDistance?: number;
+
+  /**
+   * If `true`, moving a knob into the `min-distance` or `max-distance` limit pushes (or pulls) its neighbors along
+   * instead of stopping the knob.
+   */
+  @property({ type: Boolean, reflect: true }) pushable = false;
+
+  /**
+   * If `true`, knobs can pass through each other. The `value` stays sorted while `knobValues` keeps the value of each
+   * knob. Distance limits apply to the sorted values.
+   */
+  @property({ type: Boolean, reflect: true, attribute: 'allow-cross' }) allowCross = false;
+
+  /** Step used by PageUp and PageDown keys and Shift + Arrow keys. Defaults to 10% of the slider range. */
+  @property({ type: Number, attribute: 'page-step' }) pageStep?: number;
 
-  /** Minimum value. */
-  @property({ type: Number }) min = 0;
+  /** Optional step used by Alt + Arrow keys for fine adjustments, values on the fine step grid are also valid. */
+  @property({ type: Number, attribute: 'fine-step' }) fineStep?: number;
 
-  /** Maximum value. */
-  @property({ type: Number }) max = 100;
+  /** Minimum value, an ISO string or `Date` when `type` is `date` or `datetime`. */
+  @property({ type: String })
+  get min(): number {
+    return Slider.toNumber(this.minValue);
+  }
+
+  set min(min: DateValue) {
+    const oldValue = this.minValue;
+    this.minValue = min;
+    this.requestUpdate('min', oldValue);
+  }
+
+  /** Maximum value, an ISO string or `Date` when `type` is `date` or `datetime`. */
+  @property({ type: String })
+  get max(): number {
+    return Slider.toNumber(this.maxValue);
+  }
+
+  set max(max: DateValue) {
+    const oldValue = this.maxValue;
+    this.maxValue = max;
+    this.requestUpdate('max', oldValue);
+  }
 
   /** Label. */
   @property({ type: String, reflect: true }) label?: string;
 
+  /** If `true`, show an input field for each knob to type exact values, clamped to the range and snapped to step. */
+  @property({ type: Boolean, reflect: true }) inputs = false;
+
+  /** Accessible names of the knobs, for example `['Minimum price', 'Maximum price']`. */
+  @property({ type: Array, attribute: 'knob-labels' }) knobLabels?: string[];
+
+  /** Accessible names of the draggable ranges, defaults to the names of their knobs. */
+  @property({ type: Array, attribute: 'range-labels' }) rangeLabels?: string[];
+
+  /**
+   * List of values the knobs snap to instead of using `step`.
+   * Items can be numbers or objects with a `value` and an optional `label` displayed in place of the value.
+   */
+  @property({ type: Array, attribute: 'allowed-values' }) allowedValues?: (number | AllowedValue)[];
+
+  /**
+   * Scale used to map values to positions on the slider, either `linear`, `log`, `pow` or `sqrt`.
+   * The `log` scale requires positive `min` and `max` values, the slider starts at `step` when `min` is zero or below.
+   */
+  @property({ type: String, reflect: true }) scale: SliderScale = 'linear';
+
+  /** Exponent used by the `pow` scale. */
+  @property({ type: Number }) exponent = 2;
+
+  /** If `true`, the slider can not be focused or changed. */
+  @property({ type: Boolean, reflect: true }) disabled = false;
+
+  /** If `true`, the slider can be focused but its value can not be changed by the user. */
+  @property({ type: Boolean, reflect: true }) readonly = false;
+
+  /** Indexes of knobs that can not be moved by the user (e.g. `[0]` to fix the start of a range). */
+  @property({ type: Array, attribute: 'locked-knobs' }) lockedKnobs: number[] = [];
+
+  /**
+   * Function used to format values displayed in tooltips, tick labels and `aria-valuetext`.
+   * Receives the value and the knob index (`undefined` for tick labels).
+   */
+  @property({ attribute: false }) valueFormatter?: ValueFormatter;
+
+  /**
+   * `Intl.NumberFormat` options used to format values when `valueFormatter` is not set, or `Intl.DateTimeFormat`
+   * options when `type` is `date` or `datetime`.
+   */
+  @property({ type: Object, attribute: 'format-options' }) formatOptions?:
+    | Intl.NumberFormatOptions
+    | Intl.DateTimeFormatOptions;
+
+  /** Locale used to format values when `valueFormatter` is not set. */
+  @property({ type: String }) locale?: string;
+
+  /** Name of the slider used for form submission. */
+  @property({ type: String, reflect: true }) name?: string;
+
+  /** If `true`, the slider must have a value for its form to be valid. */
+  @property({ type: Boolean, reflect: true }) required = false;
+
+  /**
+   * Format of the submitted form value when there are multiple knobs.
+   * Use `entries` to submit one form entry per knob or `list` to submit a single comma-separated list.
+   */
+  @property({ type: String, attribute: 'form-value-format' }) formValueFormat: FormValueFormat = 'entries';
+
   @query('#knobs') private $knobsContainer!: HTMLElement;
   @query('#container') private $container!: HTMLElement;
   @query('#ticks') private $ticks!: SVGGElement;
+  @query('#minor-ticks') private $minorTicks!: SVGGElement;
+  @query('#announcer') private $announcer!: HTMLElement;
+  @query('#inputs') private $inputsContainer!: HTMLElement;
+  @query('#marks') private $marksContainer!: HTMLElement;
+  @query('#histogram') private $histogram!: SVGSVGElement;
+  @query('#arc') private $arc!: SVGSVGElement;
 
   protected static is() {
     return 'vcf-slider';
@@ -83,9 +336,25 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
     return '23.3.9';
   }
 
+  static get formAssociated() {
+    return true;
+  }
+
+  private internals = this.attachInternals();
+  private defaultValues?: number[];
+  private formDisabled = false;
+  private numberFormat?: Intl.NumberFormat;
+  private dateFormat?: Intl.DateTimeFormat;
+  private minValue: DateValue = 0;
+  private maxValue: DateValue = 100;
+  private stepValue: number | string = 1;
   private knob?: HTMLElement;
-  private originalKnobOffsetXY = 0;
-  private originalPointerXY: number | null = 0;
+  private drags = new Map<number, KnobDrag | RangeDrag>();
+  private scrollContainer?: Element | null;
+  private valueSource: ValueChangeSource = 'api';
+  private lastValues?: number[];
+  private knobValueList: number[] = [];
+  private committedValues?: number[];
   private knobCount = 1;
   private decimalCount = 0;
   private tooltipActiveTimeout?: number = 0;
@@ -98,6 +367,10 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
     return this.vertical ? 'pageY' : 'pageX';
   }
 
+  private get isDisabled() {
+    return this.disabled || this.formDisabled;
+  }
+
   private set knobs(value: number) {
     this.knobCount = value > 0 ? value : 1;
   }
@@ -128,6 +401,8 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         --vcf-slider-width: 100%;
         --vcf-slider-vertical-height: 200px;
         --vcf-slider-ticks-padding: 10px;
+        --vcf-slider-histogram-size: 40px;
+        --vcf-slider-radial-size: 200px;
         /* PRIVATE PROPERTIES */
         --l-height: var(--vcf-slider-line-height);
         --k-size: calc(var(--vcf-slider-knob-size) * 2);
@@ -141,16 +416,26 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         padding-top: calc(var(--vcf-slider-tooltip-font-size) + var(--lumo-space-m) + 4px);
       }
 
-      :host([tooltips-always-visible][label]:not([vertical])) label {
+      :host([tooltips-always-visible][label]:not([vertical]):not([tooltip-side='bottom'])) label {
         padding-bottom: calc(var(--vcf-slider-tooltip-font-size) + var(--lumo-space-m) + 0.8em);
       }
 
+      :host([tooltips-always-visible][tooltip-side='bottom']:not([vertical])) {
+        padding-top: var(--vcf-slider-padding);
+        padding-bottom: calc(var(--vcf-slider-tooltip-font-size) + var(--lumo-space-m) + 4px);
+      }
+
       #container {
         position: relative;
+        touch-action: pan-y;
         width: 100%;
         height: var(--l-height);
         border-radius: var(--lumo-border-radius-m);
-        background-color: var(--lumo-contrast-30pct);
+        background-color: var(--vcf-slider-line-alt-color);
+      }
+
+      :host(:not([track-click='none'])) #container {
+        cursor: pointer;
       }
 
       #slider {
@@ -171,6 +456,7 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
 
       [part~='knob'] {
         position: absolute;
+        z-index: 1;
         display: flex;
         right: 'unset';
         top: calc(-0.5 * var(--k-size) + calc(0.5 * var(--l-height)));
@@ -181,6 +467,11 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         touch-action: none;
       }
 
+      [part~='knob'].top,
+      [part~='tooltip'].top {
+        z-index: 2;
+      }
+
       [part~='knob']:hover,
       [part~='knob'].active {
         filter: brightness(1.1);
@@ -201,6 +492,115 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         background-color: var(--vcf-slider-knob-alt-color);
       }
 
+      /* SEGMENTS */
+
+      [part~='segment'] {
+        position: absolute;
+        top: 0;
+        height: 100%;
+        border-radius: var(--lumo-border-radius-m);
+      }
+
+      :host([vertical]) [part~='segment'] {
+        top: unset;
+        left: 0;
+        width: 100%;
+      }
+
+      /* MARKS */
+
+      #marks {
+        position: absolute;
+        top: 0;
+        right: 0;
+        bottom: 0;
+        left: 0;
+        pointer-events: none;
+      }
+
+      [part~='zone'] {
+        position: absolute;
+        top: 0;
+        height: 100%;
+        border-radius: var(--lumo-border-radius-m);
+        background-color: var(--lumo-success-color-50pct);
+      }
+
+      [part~='mark'] {
+        position: absolute;
+        top: calc(50% - var(--k-size) * 0.35);
+        width: 2px;
+        height: calc(var(--k-size) * 0.7);
+        transform: translateX(-50%);
+        background-color: var(--lumo-contrast-60pct);
+      }
+
+      [part~='mark-label'],
+      [part~='zone-label'] {
+        position: absolute;
+        top: calc(100% + 2px);
+        left: 50%;
+        transform: translateX(-50%);
+        color: var(--lumo-secondary-text-color);
+        font-size: var(--lumo-font-size-xxs);
+        white-space: nowrap;
+      }
+
+      :host([rtl]:not([vertical])) [part~='mark'] {
+        transform: translateX(50%);
+      }
+
+      :host([vertical]) [part~='zone'] {
+        top: unset;
+        left: 0;
+        width: 100%;
+      }
+
+      :host([vertical]) [part~='mark'] {
+        top: unset;
+        left: calc(50% - var(--k-size) * 0.35);
+        width: calc(var(--k-size) * 0.7);
+        height: 2px;
+        transform: translateY(-50%);
+      }
+
+      :host([vertical][rtl]) [part~='mark'] {
+        transform: translateY(50%);
+      }
+
+      :host([vertical]) [part~='mark-label'],
+      :host([vertical]) [part~='zone-label'] {
+        top: 50%;
+        left: calc(100% + 2px);
+        transform: translateY(-50%);
+      }
+
+      /* RANGES */
+
+      [part~='range'] {
+        position: absolute;
+        top: 0;
+        height: 100%;
+        border-radius: var(--lumo-border-radius-m);
+        cursor: grab;
+        outline: none;
+        touch-action: none;
+      }
+
+      [part~='range']:focus-visible {
+        box-shadow: 0 0 0 2px var(--lumo-primary-color-50pct);
+      }
+
+      :host([dragging]) [part~='range'] {
+        cursor: grabbing;
+      }
+
+      :host([vertical]) [part~='range'] {
+        top: unset;
+        left: 0;
+        width: 100%;
+      }
+
       /* TOOLTIPS */
 
       :host([tooltips-always-visible]) [part~='tooltip'],
@@ -218,6 +618,7 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         flex-flow: column;
         align-items: center;
         position: absolute;
+        z-index: 1;
         bottom: calc(var(--k-size) * 0.5 + var(--lumo-space-xs));
         border-radius: 2px;
         box-shadow: var(--lumo-box-shadow-xs);
@@ -231,6 +632,10 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         line-height: 1.15;
       }
 
+      [part~='tooltip'].hidden {
+        visibility: hidden;
+      }
+
       [part~='tooltip-triangle'] {
         position: relative;
         margin: 0;
@@ -252,6 +657,20 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         box-shadow: -2px 2px 2px 0 var(--lumo-shade-20pct);
       }
 
+      :host([tooltip-side='bottom']:not([vertical])) [part~='tooltip'] {
+        flex-flow: column-reverse;
+        top: calc(var(--k-size) * 0.5 + var(--lumo-space-xs));
+        bottom: unset;
+      }
+
+      :host([tooltip-side='bottom']:not([vertical])) [part~='tooltip-triangle']::after {
+        top: -6px;
+        border-color: var(--lumo-base-color) transparent transparent var(--lumo-base-color);
+        transform-origin: 2px 5px;
+        transform: rotate(45deg);
+        box-shadow: -2px -2px 2px 0 var(--lumo-shade-20pct);
+      }
+
       /* VERTICAL */
 
       :host([vertical][tooltips-always-visible]) {
@@ -271,11 +690,17 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
       }
 
       :host([vertical]) #container {
+        touch-action: pan-x;
         width: var(--l-height);
         height: 100%;
         order: 1;
       }
 
+      /* Track presses start a drag that panning would cancel */
+      :host([track-click='jump']) #container {
+        touch-action: none;
+      }
+
       :host([vertical]) [part~='knob'] {
         bottom: unset;
         left: calc(-0.5 * var(--k-size) + calc(0.5 * var(--l-height)));
@@ -308,6 +733,26 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         border-radius: 2px;
       }
 
+      :host([vertical][tooltips-always-visible][tooltip-side='start']) {
+        padding-right: var(--vcf-slider-padding);
+        padding-left: calc(var(--vcf-slider-tooltip-width) + 4px + var(--lumo-space-m));
+      }
+
+      :host([vertical][tooltip-side='start']) [part~='tooltip'] {
+        flex-flow: row-reverse;
+        left: unset;
+        right: calc(var(--k-size) * 0.5 + var(--lumo-space-s));
+      }
+
+      :host([vertical][tooltip-side='start']) [part~='tooltip']::after {
+        left: unset;
+        right: 1px;
+        border-color: transparent var(--lumo-base-color) var(--lumo-base-color) transparent;
+        transform-origin: 11px -1px;
+        transform: rotate(-45deg);
+        box-shadow: 2px 2px 2px 0 var(--lumo-shade-10pct);
+      }
+
       /* RTL */
 
       :host([rtl]:not([vertical])) [part~='knob'] {
@@ -318,6 +763,43 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         top: unset;
       }
 
+      /* HISTOGRAM */
+
+      #histogram {
+        display: block;
+        width: 100%;
+        height: var(--vcf-slider-histogram-size);
+        margin-bottom: calc((var(--k-size) - var(--l-height)) / 2);
+      }
+
+      [part~='histogram-bar'] {
+        fill: var(--lumo-contrast-20pct);
+        transition: fill 0.2s;
+      }
+
+      [part~='histogram-bar-selected'] {
+        fill: var(--vcf-slider-line-color);
+      }
+
+      :host([ticks]:not([vertical])) #histogram {
+        width: calc(100% - var(--vcf-slider-ticks-padding) * 2);
+        margin-left: var(--vcf-slider-ticks-padding);
+        margin-right: var(--vcf-slider-ticks-padding);
+      }
+
+      :host([vertical]) #histogram {
+        order: 2;
+        width: var(--vcf-slider-histogram-size);
+        height: 100%;
+        margin: 0 0 0 calc((var(--k-size) - var(--l-height)) / 2);
+      }
+
+      :host([vertical][ticks]) #histogram {
+        height: calc(100% - 10px);
+        margin-top: 5px;
+        margin-bottom: 5px;
+      }
+
       /* TICKS */
 
       :host([ticks]:not([vertical])) #container {
@@ -335,7 +817,8 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         display: none;
       }
 
-      #ticks {
+      #ticks,
+      #minor-ticks {
         transform: translate(var(--vcf-slider-ticks-padding), 0);
       }
 
@@ -350,7 +833,8 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         margin: 5px 0;
       }
 
-      :host([vertical]) #ticks {
+      :host([vertical]) #ticks,
+      :host([vertical]) #minor-ticks {
         transform: translate(calc(var(--vcf-slider-ticks-padding) * 2), 5px);
       }
 
@@ -365,6 +849,98 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         text-anchor: end;
       }
 
+      /* RADIAL */
+
+      :host([radial]) {
+        width: max-content;
+      }
+
+      :host([radial]) #slider {
+        position: relative;
+      }
+
+      :host([radial]) #container,
+      :host([radial][ticks]) #container {
+        touch-action: none;
+        width: var(--vcf-slider-radial-size);
+        height: var(--vcf-slider-radial-size);
+        margin: 0;
+        border-radius: 50%;
+        background-color: transparent;
+      }
+
+      #arc,
+      :host([radial]) [part~='segment'] {
+        position: absolute;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        overflow: visible;
+        pointer-events: none;
+      }
+
+      #arc path,
+      :host([radial]) [part~='segment'] path {
+        fill: none;
+        stroke-width: var(--l-height);
+        stroke-linecap: round;
+      }
+
+      #arc path {
+        stroke: var(--vcf-slider-line-alt-color);
+      }
+
+      :host([radial]) [part~='segment'] path {
+        stroke: currentColor;
+      }
+
+      :host([radial]) [part~='tooltip'] {
+        bottom: auto;
+      }
+
+      :host([radial]) #histogram,
+      :host([radial]) #marks,
+      :host([radial]) [part~='range'] {
+        display: none;
+      }
+
+      :host([radial]) #ticks-container {
+        position: absolute;
+        top: 0;
+        left: 0;
+        width: var(--vcf-slider-radial-size);
+        height: var(--vcf-slider-radial-size);
+        margin: 0;
+        overflow: visible;
+        pointer-events: none;
+      }
+
+      :host([radial]) #ticks,
+      :host([radial]) #minor-ticks {
+        transform: none;
+      }
+
+      /* DISABLED */
+
+      /* Matches both the disabled attribute and a disabled parent fieldset */
+      :host(:disabled) {
+        pointer-events: none;
+      }
+
+      :host(:disabled) #container {
+        opacity: 0.5;
+      }
+
+      :host(:disabled) [part~='knob']::after {
+        background-color: var(--lumo-contrast-30pct);
+        box-shadow: none;
+      }
+
+      :host(:disabled) label {
+        color: var(--lumo-disabled-text-color);
+      }
+
       /* LABEL */
 
       label {
@@ -382,43 +958,149 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         text-overflow: ellipsis;
         position: relative;
       }
-    `;
-  }
 
-  render() {
-    return html`
-      ${when(
-        this.label,
-        () => html`<label slot="label" aria-label="${ifDefined(this.label)}" for="slider">${this.label}</label>`
-      )}
-      <div id="slider" tabindex="0">
-        <div id="container" part="container">
-          <div id="knobs" part="knobs"></div>
-        </div>
+      /* INPUTS */
+
+      #inputs {
+        display: flex;
+        justify-content: space-between;
+        gap: var(--lumo-space-s);
+        margin-top: var(--lumo-space-s);
+      }
+
+      :host([vertical]) #inputs {
+        flex-flow: column;
+        align-items: flex-start;
+      }
+
+      [part~='input'] {
+        width: 6em;
+        height: var(--lumo-size-s);
+        padding: 0 var(--lumo-space-s);
+        border: none;
+        border-radius: var(--lumo-border-radius-m);
+        outline: none;
+        background-color: var(--lumo-contrast-10pct);
+        color: var(--lumo-body-text-color);
+        font-family: inherit;
+        font-size: var(--lumo-font-size-s);
+      }
+
+      [part~='input']:focus {
+        box-shadow: 0 0 0 2px var(--lumo-primary-color-50pct);
+      }
+
+      [part~='input'][invalid] {
+        background-color: var(--lumo-error-color-10pct);
+        color: var(--lumo-error-text-color);
+      }
+
+      :host(:disabled) [part~='input'] {
+        color: var(--lumo-disabled-text-color);
+      }
+
+      /* ANNOUNCER */
+
+      #announcer {
+        position: absolute;
+        width: 1px;
+        height: 1px;
+        overflow: hidden;
+        clip: rect(0 0 0 0);
+        white-space: nowrap;
+      }
+    `;
+  }
+
+  render() {
+    return html`
+      ${when(
+        this.label,
+        () => html`<label id="label" slot="label" aria-label="${ifDefined(this.label)}">${this.label}</label>`
+      )}
+      <div id="slider" role="group" aria-labelledby="${ifDefined(this.label ? 'label' : undefined)}">
+        ${when(this.histogram, () => html`<svg id="histogram" part="histogram" aria-hidden="true"></svg>`)}
+        <div
+          id="container"
+          part="container"
+          @pointerdown="${this.pressTrack}"
+          @mousedown="${this.preventContainerFocus}"
+        >
+          ${when(this.radial, () => html`<svg id="arc" part="arc" aria-hidden="true"><path></path></svg>`)}
+          <div id="knobs" part="knobs"></div>
+          <div id="marks" part="marks"></div>
+        </div>
         ${this.ticks
           ? svg`
           <svg id="ticks-container" part="ticks-container">
+            <g id="minor-ticks" part="minor-ticks"></g>
             <g id="ticks" part="ticks"></g>
           </svg>
         `
           : nothing}
       </div>
+      ${when(this.inputs, () => html`<div id="inputs" part="inputs"></div>`)}
+      <div id="announcer" aria-live="polite"></div>
     `;
   }
 
+  connectedCallback() {
+    super.connectedCallback();
+    // The slider may have been moved to another scroll container
+    this.scrollContainer = undefined;
+  }
+
   protected firstUpdated() {
     this.initResizeObserver();
   }
 
   protected updated(props: PropertyValues) {
-    const { ranges, step } = this;
+    const { ranges, step, fineStep, stepUnit } = this;
+
+    if (
+      (props.has('step') || props.has('type')) &&
+      this.isTime &&
+      stepUnit &&
+      !Object.keys(Slider.timeIntervals).includes(stepUnit)
+    ) {
+      const defaultUnit = this.type === 'date' ? 'day' : 'hour';
+      console.warn(`<vcf-slider> Unknown step unit in "${this.stepValue}", using 1 ${defaultUnit} instead.`);
+      this.step = 1;
+    }
+
+    if (props.has('step') || props.has('fineStep')) {
+      if (this.step < 0) this.step = 1;
+      this.decimalCount = Math.max(this.getDecimalCount(step), fineStep ? this.getDecimalCount(fineStep) : 0);
+    }
+
+    if ((props.has('scale') || props.has('min')) && this.scale === 'log' && this.min <= 0) {
+      console.warn(
+        `<vcf-slider> The log scale requires a positive min, using ${this.scaleMin} instead of ${this.min}.`
+      );
+    }
+
+    if (props.has('step') || props.has('fineStep') || props.has('formatOptions') || props.has('locale')) {
+      this.setNumberFormat();
+    }
 
-    if (props.has('step')) {
-      this.step = this.step < 0 ? 1 : this.step;
-      this.decimalCount = this.getDecimalCount(step);
+    if (props.has('type')) {
+      this.setNumberFormat();
+      this.setValue();
+      this.setTicks();
+      this.updateFormValue();
     }
 
-    if (props.has('tooltips') || props.has('tooltipsAlwaysVisible')) {
+    if (props.has('tooltipSeparator')) {
+      this.setValue();
+    }
+
+    if (
+      props.has('tooltips') ||
+      props.has('tooltipsAlwaysVisible') ||
+      props.has('draggableRange') ||
+      props.has('inputs') ||
+      props.has('radial')
+    ) {
       this.setKnobElements();
       this.setValue();
     }
@@ -431,45 +1113,304 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
     if (props.has('ranges') || props.has('min') || props.has('max')) {
       this.setKnobElements();
       const newValue = this.initialValue.map((_, i) => this.values[i] ?? this.initialValue[i]);
-      this.setValue((this.value = newValue));
+      this.value = this.serializeValues(newValue);
+      this.setValue(newValue);
+    }
+
+    if (props.has('allowCross')) {
+      this.knobValueList = this.values;
+      this.setValue();
     }
 
     if (props.has('value') || props.has('vertical') || props.has('rtl')) {
+      // Keep knobs assigned in the given order when they may cross
+      if (this.allowCross && !this.isSorted()) this.knobValueList = this.values;
       if (!this.isSorted()) this.sort();
       else this.setValue();
     }
 
+    if (
+      props.has('tooltipPlacement') ||
+      props.has('tooltips') ||
+      props.has('tooltipsAlwaysVisible') ||
+      props.has('vertical') ||
+      props.has('radial')
+    ) {
+      // Auto placed tooltips are also resolved on activation and resize, not on every value change
+      if (this.tooltipsEnabled) this.setTooltipSide();
+    }
+
+    if (props.has('value') || props.has('minDistance') || props.has('maxDistance')) {
+      const values = this.constrainValues(this.values);
+      if (this.isSorted() && !Slider.isEqual(values, this.values)) {
+        this.value = this.knobs === 1 ? this.serializeValues(values)[0] : this.serializeValues(values);
+      }
+    }
+
     if (props.has('ticks') || props.has('vertical') || props.has('rtl')) {
       this.setTicks();
     }
+
+    if (props.has('radial') || props.has('startAngle') || props.has('endAngle')) {
+      this.setValue();
+      this.setTicks();
+    }
+
+    if (props.has('tickCount') || props.has('tickValues') || props.has('minorTicks') || props.has('tickLabels')) {
+      this.setTicks();
+    }
+
+    if (props.has('allowedValues')) {
+      this.setValue();
+      this.setTicks();
+    }
+
+    if (props.has('scale') || props.has('exponent')) {
+      this.setValue();
+      this.setTicks();
+    }
+
+    if (props.has('valueFormatter') || props.has('formatOptions') || props.has('locale')) {
+      this.setValue();
+      this.setTicks();
+    }
+
+    if (
+      props.has('marks') ||
+      props.has('min') ||
+      props.has('max') ||
+      props.has('scale') ||
+      props.has('exponent') ||
+      props.has('vertical') ||
+      props.has('rtl')
+    ) {
+      this.setMarks();
+    }
+
+    if (
+      props.has('histogram') ||
+      props.has('bins') ||
+      props.has('min') ||
+      props.has('max') ||
+      props.has('scale') ||
+      props.has('exponent') ||
+      props.has('vertical') ||
+      props.has('rtl') ||
+      props.has('ticks')
+    ) {
+      this.setHistogram();
+    }
+
+    if (props.has('segmentColors')) {
+      this.setSegmentColors();
+    }
+
+    if (props.has('disabled') || props.has('readonly') || props.has('lockedKnobs')) {
+      this.setKnobStates();
+    }
+
+    if (props.has('label') || props.has('knobLabels') || props.has('rangeLabels') || props.has('vertical')) {
+      this.setKnobLabels();
+    }
+
+    if (props.has('name') || props.has('required') || props.has('step') || props.has('formValueFormat')) {
+      this.updateFormValue();
+    }
+
+    // Save value used when the parent form is reset
+    if (!this.defaultValues) this.defaultValues = [...this.values];
   }
 
   private initResizeObserver() {
     const observer = new ResizeObserver(() =>
       requestAnimationFrame(() => {
         this.setTicks();
+        this.setHistogram();
+        if (this.tooltipsEnabled) this.setTooltipSide();
         this.setValue();
       })
     );
     observer.observe(this);
   }
 
-  private get tickElements() {
-    return Array.from(this.$ticks?.querySelectorAll('.tick'));
+  /** Values of the knobs as numbers in ascending order, timestamps when `type` is `date` or `datetime`. */
+  get values() {
+    const { value } = this;
+    let list: DateValue[];
+    if (typeof value === 'string') list = value[0] === '[' ? JSON.parse(value) : value.split(',').filter(Boolean);
+    else list = Array.isArray(value) ? value : [value || 0];
+    return list.map(item => Slider.toNumber(item));
+  }
+
+  /** Value of each knob in knob order, which differs from the sorted `value` after knobs have crossed. */
+  get knobValues() {
+    const { values, knobValueList } = this;
+    return this.allowCross && knobValueList.length === values.length ? [...knobValueList] : [...values];
+  }
+
+  /** The form the slider is associated with. */
+  get form() {
+    return this.internals.form;
+  }
+
+  /** Validity state of the slider. */
+  get validity() {
+    return this.internals.validity;
+  }
+
+  /** Message describing the validity constraint the slider value does not satisfy. */
+  get validationMessage() {
+    return this.internals.validationMessage;
+  }
+
+  /** If `true`, the slider is validated when its form is submitted. */
+  get willValidate() {
+    return this.internals.willValidate;
+  }
+
+  /** Returns `true` if the slider value satisfies its constraints, otherwise fires an `invalid` event. */
+  checkValidity() {
+    return this.internals.checkValidity();
+  }
+
+  /** Same as `checkValidity()`, but also reports the problem to the user. */
+  reportValidity() {
+    return this.internals.reportValidity();
+  }
+
+  /** Increase the value of the knob at `index` by `n` steps, limited by `max` and neighboring knobs. */
+  stepUp(index = 0, n = 1) {
+    if (!this.knobIndexes.includes(index) || !(n > 0)) return;
+    this.knob = this.knobElement(index) as HTMLElement;
+    if (this.allowedValues) this.changeKnobValue(index, this.getNextStepValue(this.knobValues[index], 1, n), 'api');
+    else this.increaseKnobValueByStep(index, this.step * n, 'api');
+  }
+
+  /** Decrease the value of the knob at `index` by `n` steps, limited by `min` and neighboring knobs. */
+  stepDown(index = 0, n = 1) {
+    if (!this.knobIndexes.includes(index) || !(n > 0)) return;
+    this.knob = this.knobElement(index) as HTMLElement;
+    if (this.allowedValues) this.changeKnobValue(index, this.getPrevStepValue(this.knobValues[index], 1, n), 'api');
+    else this.decreaseKnobValueByStep(index, this.step * n, 'api');
+  }
+
+  /** Set the value of the knob at `index`, snapped to step and limited by the slider range and neighboring knobs. */
+  setKnobValue(index: number, value: DateValue) {
+    const number = Slider.toNumber(value);
+    if (this.knobIndexes.includes(index) && !isNaN(number)) this.changeKnobValue(index, number, 'api');
+  }
+
+  /** Move focus to the knob at `index`. */
+  focusKnob(index = 0) {
+    (this.knobElement(index) as HTMLElement | null)?.focus();
+  }
+
+  /** Reset the knobs to the initial value of the slider. */
+  reset() {
+    const { defaultValues = this.initialValue } = this;
+    this.changeValues([...defaultValues], 'api');
   }
 
-  private get maxTickElement() {
-    return this.tickElements[this.rtl ? 0 : this.tickElements.length - 1] as SVGGElement;
+  /** @private */
+  formResetCallback() {
+    const { defaultValues = this.initialValue } = this;
+    this.value = this.knobs === 1 ? this.serializeValues(defaultValues)[0] : this.serializeValues(defaultValues);
+  }
+
+  /** @private */
+  formDisabledCallback(disabled: boolean) {
+    this.formDisabled = disabled;
+    this.setKnobStates();
+    this.requestUpdate();
+  }
+
+  /** @private */
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    if (typeof state === 'string') this.value = state;
+  }
+
+  private updateFormValue(values = this.values) {
+    const { name, knobs, formValueFormat, internals } = this;
+    // Dates are submitted as ISO strings
+    const formValues = this.serializeValues(values);
+    const state = JSON.stringify(formValues);
+    if (knobs === 1) {
+      internals.setFormValue(`${formValues[0]}`, state);
+    } else if (formValueFormat === 'list') {
+      internals.setFormValue(formValues.join(','), state);
+    } else {
+      const formData = new FormData();
+      if (name) formValues.forEach(value => formData.append(name, `${value}`));
+      internals.setFormValue(formData, state);
+    }
+    this.updateValidity(values);
+  }
+
+  private updateValidity(values = this.values) {
+    const { min, max, required, internals } = this;
+    // Show dates in messages of date sliders
+    const [minText, maxText] = this.isTime ? [this.formatValue(min), this.formatValue(max)] : [min, max];
+    const step = this.isTime ? this.stepValue : this.step;
+    let flags: ValidityStateFlags = {};
+    let message = '';
+    let anchor: HTMLElement | undefined;
+    if (required && (!values.length || values.some(isNaN))) {
+      flags = { valueMissing: true };
+      message = 'Please select a value.';
+    }
+    values.some((value, i) => {
+      if (message || isNaN(value)) {
+        return !!message;
+      } else if (value < min) {
+        flags = { rangeUnderflow: true };
+        message = `Value must be greater than or equal to ${minText}.`;
+      } else if (value > max) {
+        flags = { rangeOverflow: true };
+        message = `Value must be less than or equal to ${maxText}.`;
+      } else if (!this.isOnStep(value)) {
+        flags = { stepMismatch: true };
+        message = this.allowedValues
+          ? 'Value must be one of the allowed values.'
+          : `Value must be a multiple of ${step} starting from ${minText}.`;
+      }
+      if (message) anchor = (this.knobElement(i) as HTMLElement) || undefined;
+      return !!message;
+    });
+    if (message) internals.setValidity(flags, message, anchor);
+    else internals.setValidity({});
+  }
+
+  private isOnStep(value: number) {
+    const { min, max, step } = this;
+    // Knobs snapped to marks may be placed off step
+    if (this.snapToMarks && this.markValues.includes(value)) return true;
+    if (this.allowedValues) return this.allowedValueList.includes(value);
+    if (value === max || !step) return true;
+    if (this.timeInterval) return this.snapValue(value) === value;
+    // Values set using the fine step are also valid
+    return [step, this.fineStep || step].some(gridStep => {
+      const steps = (value - min) / gridStep;
+      // Allow for floating point errors when using decimal steps
+      return Math.abs(steps - Math.round(steps)) < 1e-9;
+    });
+  }
+
+  private get tickLabelElements() {
+    return Array.from(this.$ticks?.querySelectorAll('[part~="tick-label"]') || []);
+  }
+
+  private get maxTickLabelWidth() {
+    return Math.max(0, ...this.tickLabelElements.map(label => label.getBoundingClientRect().width));
   }
 
   private setTicks() {
     if (this.ticks) {
       this.$ticks.innerHTML = '';
+      this.$minorTicks.innerHTML = '';
       requestAnimationFrame(() => {
         this.createTicks();
-        // Set ticks padding
-        const maxTickBounds = this.maxTickElement.getBoundingClientRect();
-        const ticksPadding = maxTickBounds.width / 2;
+        // Set ticks padding using the widest label
+        const ticksPadding = this.maxTickLabelWidth / 2;
         this.style.setProperty('--vcf-slider-ticks-padding', `${ticksPadding}px`);
         // Reset ticks with new padding
         this.createTicks();
@@ -478,17 +1419,445 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
   }
 
   private createTicks() {
-    const { min, max, rtl, vertical, $ticks, $container } = this;
+    if (this.radial) return this.createArcTicks();
+    const { scaleMin: min, max, rtl, vertical, tickCount, $ticks, $minorTicks, $container } = this;
+    const start = rtl ? max : min;
+    const end = rtl ? min : max;
+    const size = vertical ? $container.clientHeight : $container.clientWidth;
+    const scale = this.createScale().domain([start, end]).range([0, size]);
+    const createAxis = vertical ? axisLeft : axisBottom;
+    const defaultFormat = this.isTime ? this.timeTickFormat : scale.tickFormat(tickCount);
+    const majorTickValues = this.getMajorTickValues(scale);
+
+    // Major ticks
+    const axis = createAxis(scale)
+      .tickValues(majorTickValues)
+      .tickFormat(value => this.formatTick(Number(value), defaultFormat));
+    axis(select($ticks));
+    select($ticks).selectAll('.tick').attr('part', 'tick tick-major');
+    select($ticks).selectAll('.tick text').attr('part', 'tick-label');
+
+    // Minor ticks
+    const minorAxis = createAxis(scale).tickValues(this.getMinorTickValues(majorTickValues)).tickSize(3);
+    minorAxis(select($minorTicks));
+    select($minorTicks).selectAll('.tick').attr('part', 'tick tick-minor');
+    select($minorTicks).selectAll('.tick text').remove();
+  }
+
+  /**
+   * Draw ticks around the arc of a `radial` slider, inside the knobs. The tick at `max` is left out when it overlaps
+   * the tick at `min` on a full circle.
+   */
+  private createArcTicks() {
+    const { scaleMin: min, max, startAngle, endAngle, tickCount, $ticks, $minorTicks } = this;
+    const scale = this.createScale().domain([min, max]);
+    const defaultFormat = this.isTime ? this.timeTickFormat : scale.tickFormat(tickCount);
+    const majorTickValues = this.getMajorTickValues(scale);
+    const minorTickValues = this.getMinorTickValues(majorTickValues);
+    const fullCircle = Math.abs(endAngle - startAngle) >= 360;
+    const labeledValues = majorTickValues.filter(v => !(fullCircle && v === max && majorTickValues.includes(min)));
+    this.drawArcTicks($ticks, labeledValues, 6, value => this.formatTick(value, defaultFormat));
+    this.drawArcTicks($minorTicks, minorTickValues, 3);
+  }
+
+  private drawArcTicks(group: SVGGElement, values: number[], size: number, format?: (value: number) => string) {
+    const radius = this.arcRadius - this.radialKnobSize / 2;
+    const ticks = select(group).attr('font-size', 10).attr('font-family', 'sans-serif');
+    ticks.selectAll('*').remove();
+    values.forEach(value => {
+      const angle = this.ratioToAngle(this.valueToRatio(value));
+      const [x1, y1] = this.getArcPoint(angle, radius);
+      const [x2, y2] = this.getArcPoint(angle, radius - size);
+      const tick = ticks
+        .append('g')
+        .attr('class', 'tick')
+        .attr('part', `tick tick-${format ? 'major' : 'minor'}`);
+      tick.append('line').attr('x1', x1).attr('y1', y1).attr('x2', x2).attr('y2', y2).attr('stroke', 'currentColor');
+      if (format) {
+        const [x, y] = this.getArcPoint(angle, radius - size - 10);
+        tick
+          .append('text')
+          .attr('part', 'tick-label')
+          .attr('x', x)
+          .attr('y', y)
+          .attr('dy', '0.32em')
+          .attr('fill', 'currentColor')
+          .text(format(value));
+      }
+    });
+  }
+
+  /**
+   * Histogram bins, counting raw values into `bins` bins of equal size on the slider scale.
+   */
+  private get histogramBins(): HistogramBin[] {
+    const { histogram = [], min, max } = this;
+    // Pre-binned counts are used as is
+    if (histogram.some(item => typeof item !== 'number')) return histogram as HistogramBin[];
+    const binCount = Math.max(1, Math.floor(this.bins));
+    const bins = Array.from({ length: binCount }, (_, i) => ({
+      from: this.ratioToValue(i / binCount),
+      to: this.ratioToValue((i + 1) / binCount),
+      count: 0,
+    }));
+    (histogram as number[]).forEach(value => {
+      if (value >= min && value <= max)
+        bins[Math.min(binCount - 1, Math.floor(this.valueToRatio(value) * binCount))].count++;
+    });
+    return bins;
+  }
+
+  private setHistogram() {
+    const { scaleMin: min, max, rtl, vertical, $histogram } = this;
+    if (!$histogram) return;
+    const { width, height } = this.getBounds($histogram);
     const start = rtl ? max : min;
     const end = rtl ? min : max;
-    if (vertical) {
-      const linear = scaleLinear().domain([start, end]).range([0, $container.clientHeight]);
-      const axis = axisLeft(linear);
-      axis(select($ticks));
+    const scale = this.createScale()
+      .domain([start, end])
+      .range([0, vertical ? height : width]);
+    const bins = this.histogramBins;
+    const maxCount = Math.max(1, ...bins.map(bin => bin.count));
+    const barSize = (bin: HistogramBin) => (bin.count / maxCount) * (vertical ? width : height);
+    const barStart = (bin: HistogramBin) => Math.min(scale(bin.from), scale(bin.to));
+    // Leave a gap of one pixel between bars
+    const barLength = (bin: HistogramBin) => Math.max(0, Math.abs(scale(bin.to) - scale(bin.from)) - 1);
+    select($histogram)
+      .selectAll('rect')
+      .data(bins)
+      .join('rect')
+      .attr('x', bin => (vertical ? 0 : barStart(bin)))
+      .attr('y', bin => (vertical ? barStart(bin) : height - barSize(bin)))
+      .attr('width', bin => (vertical ? barSize(bin) : barLength(bin)))
+      .attr('height', bin => (vertical ? barLength(bin) : barSize(bin)));
+    this.setHistogramSelection();
+  }
+
+  /**
+   * Highlight histogram bars that are inside the filled segments of the slider.
+   */
+  private setHistogramSelection(values = this.values) {
+    const { knobs, min, $histogram } = this;
+    if (!$histogram) return;
+    const segments = this.segmentIndexes.map(i =>
+      knobs === 1 ? [min, values[0]] : [values[i * 2], values[i * 2 + 1]]
+    );
+    select($histogram)
+      .selectAll<SVGRectElement, HistogramBin>('rect')
+      .attr('part', bin => {
+        const center = (bin.from + bin.to) / 2;
+        const selected = segments.some(([from, to]) => center >= from && center <= to);
+        return selected ? 'histogram-bar histogram-bar-selected' : 'histogram-bar';
+      });
+  }
+
+  private getMajorTickValues(scale: ScaleContinuousNumeric<number, number>) {
+    const { tickValues, tickCount } = this;
+    if (tickValues) return tickValues;
+    // Only show ticks for allowed values
+    if (this.allowedValues) return this.allowedValueList;
+    // Place date ticks on calendar boundaries
+    if (this.isTime) return scaleTime().domain([this.min, this.max]).ticks(tickCount).map(Number);
+    return scale.ticks(tickCount);
+  }
+
+  /**
+   * Multi-scale date format of `scaleTime`, showing the coarsest calendar unit that differs between ticks.
+   */
+  private get timeTickFormat() {
+    const format = scaleTime().domain([this.min, this.max]).tickFormat(this.tickCount);
+    return (value: number) => format(new Date(value));
+  }
+
+  private getMinorTickValues(majorTickValues: number[]) {
+    const { minorTicks } = this;
+    const values: number[] = [];
+    if (minorTicks > 0) {
+      const sorted = [...majorTickValues].sort((a, b) => a - b);
+      sorted.slice(1).forEach((value, i) => {
+        const interval = (value - sorted[i]) / (minorTicks + 1);
+        for (let n = 1; n <= minorTicks; n++) values.push(sorted[i] + n * interval);
+      });
+    }
+    return values;
+  }
+
+  private formatTick(value: number, defaultFormat: (value: number) => string) {
+    const { tickLabels } = this;
+    if (typeof tickLabels === 'function') return tickLabels(value);
+    if (tickLabels && value in tickLabels) return tickLabels[value];
+    // Use d3 default tick format unless a custom format is set
+    return this.hasValueFormat ? this.formatValue(value) : defaultFormat(value);
+  }
+
+  private createScale(): ScaleContinuousNumeric<number, number> {
+    switch (this.scale) {
+      case 'log':
+        return scaleLog();
+      case 'pow':
+        return scalePow().exponent(this.exponent);
+      case 'sqrt':
+        return scaleSqrt();
+      default:
+        return scaleLinear();
+    }
+  }
+
+  /**
+   * Get position of a value on the slider as a ratio between 0 (`min`) and 1 (`max`).
+   */
+  private valueToRatio(value: number) {
+    const { scaleMin: min, max } = this;
+    return this.createScale().domain([min, max]).range([0, 1]).clamp(true)(value);
+  }
+
+  /**
+   * Get value at a position on the slider given as a ratio between 0 (`min`) and 1 (`max`).
+   */
+  private ratioToValue(ratio: number) {
+    const { scaleMin: min, max } = this;
+    return this.createScale().domain([min, max]).range([0, 1]).clamp(true).invert(ratio);
+  }
+
+  /**
+   * Get angle in degrees, clockwise from the top, of a position on the arc of a `radial` slider given as a ratio.
+   */
+  private ratioToAngle(ratio: number) {
+    const { startAngle, endAngle, rtl } = this;
+    return startAngle + (rtl ? 1 - ratio : ratio) * (endAngle - startAngle);
+  }
+
+  /**
+   * Get position on the arc of a `radial` slider closest to the pointer as a ratio, pointers in the gap of the arc
+   * snap to its closest end.
+   */
+  private getArcRatio(e: PointerEvent) {
+    const { startAngle, endAngle, rtl, containerBounds, arcSpan: span } = this;
+    const x = e.clientX - (containerBounds.left + containerBounds.width / 2);
+    const y = e.clientY - (containerBounds.top + containerBounds.height / 2);
+    const angle = (Math.atan2(x, -y) * 180) / Math.PI;
+    const direction = endAngle < startAngle ? -1 : 1;
+    const offset = ((((angle - startAngle) * direction) % 360) + 360) % 360;
+    const ratio = offset <= span ? offset / span : offset - span < 360 - offset ? 1 : 0;
+    return rtl ? 1 - ratio : ratio;
+  }
+
+  /** Angle covered by the arc of a `radial` slider, in degrees. */
+  private get arcSpan() {
+    return Math.min(Math.abs(this.endAngle - this.startAngle), 360);
+  }
+
+  /**
+   * Get point at an angle on a circle around the center of the slider container.
+   */
+  private getArcPoint(angle: number, radius: number) {
+    const { clientWidth, clientHeight } = this.$container;
+    const radians = (angle * Math.PI) / 180;
+    return [clientWidth / 2 + radius * Math.sin(radians), clientHeight / 2 - radius * Math.cos(radians)];
+  }
+
+  /**
+   * Get SVG path of the arc between two positions given as ratios, a full circle is drawn as two half circles.
+   */
+  private getArcPath(fromRatio: number, toRatio: number) {
+    const radius = this.arcRadius;
+    const from = this.ratioToAngle(fromRatio);
+    const to = this.ratioToAngle(toRatio);
+    const [x0, y0] = this.getArcPoint(from, radius);
+    const sweep = to > from ? 1 : 0;
+    if (Math.abs(to - from) >= 360) {
+      const [x1, y1] = this.getArcPoint(from + 180, radius);
+      return `M ${x0} ${y0} A ${radius} ${radius} 0 1 1 ${x1} ${y1} A ${radius} ${radius} 0 1 1 ${x0} ${y0}`;
+    }
+    const [x1, y1] = this.getArcPoint(to, radius);
+    const largeArc = Math.abs(to - from) > 180 ? 1 : 0;
+    return `M ${x0} ${y0} A ${radius} ${radius} 0 ${largeArc} ${sweep} ${x1} ${y1}`;
+  }
+
+  /**
+   * Radius of the arc of a `radial` slider, keeping knobs inside the container.
+   */
+  private get arcRadius() {
+    const { $container } = this;
+    return Math.max(0, Math.min($container.clientWidth, $container.clientHeight) / 2 - this.radialKnobSize / 2);
+  }
+
+  private get radialKnobSize() {
+    return (this.knobElement() as HTMLElement | null)?.offsetWidth || 0;
+  }
+
+  private setArcPath() {
+    this.$arc?.firstElementChild?.setAttribute('d', this.getArcPath(0, 1));
+  }
+
+  /**
+   * Loop a value past the end of the slider around to the other end, for a single `radial` knob that may `wrap`.
+   */
+  private wrapValue(value: number) {
+    const { min, max } = this;
+    const length = max - min;
+    return this.round(value > max ? value - length : value < min ? value + length : value);
+  }
+
+  private get wrapsAround() {
+    return this.radial && this.wrap && this.knobs === 1;
+  }
+
+  private get hasValueFormat() {
+    return Boolean(this.valueFormatter || this.numberFormat || this.allowedValues);
+  }
+
+  private setNumberFormat() {
+    const { formatOptions, locale, decimalCount } = this;
+    if (this.isTime) {
+      // Show dates, and times for `datetime` sliders, unless format options are set
+      const defaultOptions: Intl.DateTimeFormatOptions =
+        this.type === 'date' ? { dateStyle: 'medium' } : { dateStyle: 'medium', timeStyle: 'short' };
+      this.dateFormat = new Intl.DateTimeFormat(
+        locale,
+        (formatOptions as Intl.DateTimeFormatOptions) || defaultOptions
+      );
+    } else {
+      this.dateFormat = undefined;
+    }
+    if (formatOptions || locale) {
+      // Show the same number of decimal places as step unless fraction digits are set in the format options
+      const { minimumFractionDigits, maximumFractionDigits } = (formatOptions || {}) as Intl.NumberFormatOptions;
+      const hasDigits = minimumFractionDigits !== undefined || maximumFractionDigits !== undefined;
+      const digits = hasDigits ? {} : { minimumFractionDigits: decimalCount, maximumFractionDigits: decimalCount };
+      const options = { ...digits, ...formatOptions };
+      this.numberFormat = new Intl.NumberFormat(locale, options);
     } else {
-      const linear = scaleLinear().domain([start, end]).range([0, $container.clientWidth]);
-      const axis = axisBottom(linear);
-      axis(select($ticks));
+      this.numberFormat = undefined;
+    }
+  }
+
+  private formatValue(value: number, index?: number) {
+    const { valueFormatter, numberFormat } = this;
+    if (valueFormatter) return valueFormatter(value, index);
+    const label = this.getAllowedValueLabel(value);
+    if (label !== undefined) return label;
+    if (this.dateFormat) return this.dateFormat.format(value);
+    if (numberFormat) return numberFormat.format(value);
+    // Allowed values are not aligned to step so keep their own decimal places
+    return this.allowedValues ? `${value}` : value.toFixed(this.decimalCount);
+  }
+
+  private get allowedValueList() {
+    const values = (this.allowedValues || []).map(item => (typeof item === 'number' ? item : item.value));
+    return values.sort((a, b) => a - b);
+  }
+
+  private getAllowedValueLabel(value: number) {
+    const item = this.allowedValues?.find(item => typeof item !== 'number' && item.value === value);
+    return (item as AllowedValue | undefined)?.label;
+  }
+
+  /**
+   * Get allowed value closest to `value` that is between `from` and `to`.
+   */
+  private getNearestAllowedValue(value: number, from = -Infinity, to = Infinity) {
+    const candidates = this.allowedValueList.filter(allowed => allowed >= from && allowed <= to);
+    return candidates.reduce(
+      (nearest, allowed) => (Math.abs(allowed - value) < Math.abs(nearest - value) ? allowed : nearest),
+      candidates[0] ?? value
+    );
+  }
+
+  private get lowestValue() {
+    return this.allowedValues ? this.allowedValueList[0] ?? this.scaleMin : this.scaleMin;
+  }
+
+  /**
+   * Start of the slider scale, `min` unless the `log` scale needs a positive value in place of zero or below.
+   */
+  private get scaleMin() {
+    const { min, max, step } = this;
+    // Logarithms of zero and negative values have no position on the slider
+    return this.scale === 'log' && min <= 0 ? Math.min(step > 0 ? step : 1, max) : min;
+  }
+
+  private get highestValue() {
+    return this.allowedValues ? this.allowedValueList[this.allowedValueList.length - 1] ?? this.max : this.max;
+  }
+
+  /**
+   * Get the value one step below `value`, or `count` allowed values below it when `allowedValues` are set.
+   */
+  private getPrevStepValue(value: number, step = this.step, count = 1) {
+    if (this.timeInterval) return this.timeInterval.offset(new Date(value), -step).getTime();
+    if (this.allowedValues) {
+      const lower = this.allowedValueList.filter(allowed => allowed < value);
+      return lower[Math.max(0, lower.length - count)] ?? value;
+    }
+    if (step === this.fineStep) return this.round(value - step);
+    if (step === this.step || !this.step) return value - step;
+    // Keep page steps on the step grid while still moving at least one step
+    const prev = this.snapValue(value - step);
+    return prev < value ? prev : this.snapValue(value - this.step);
+  }
+
+  /**
+   * Get the value one step above `value`, or `count` allowed values above it when `allowedValues` are set.
+   */
+  private getNextStepValue(value: number, step = this.step, count = 1) {
+    if (this.timeInterval) return this.timeInterval.offset(new Date(value), step).getTime();
+    if (this.allowedValues) {
+      const higher = this.allowedValueList.filter(allowed => allowed > value);
+      return higher[Math.min(count, higher.length) - 1] ?? value;
+    }
+    if (step === this.fineStep) return this.round(value + step);
+    if (step === this.step || !this.step) return value + step;
+    // Keep page steps on the step grid while still moving at least one step
+    const next = this.snapValue(value + step);
+    return next > value ? next : this.snapValue(value + this.step);
+  }
+
+  /**
+   * Step used to move knobs by one page, `pageStep` or 10% of the slider range rounded to `step`.
+   * Date steps count calendar units.
+   */
+  private get largeStep() {
+    const { min, max, step, pageStep, timeInterval } = this;
+    if (timeInterval) {
+      const units = timeInterval.count(new Date(min), new Date(max));
+      return pageStep || Math.max(step, Math.round(units / 10 / step) * step);
+    }
+    return pageStep || Math.max(step, this.round(Math.round((max - min) / 10 / step) * step));
+  }
+
+  /**
+   * Get step used for a key press, taking modifier keys into account.
+   */
+  private getKeyStep({ key, shiftKey, altKey }: KeyboardEvent) {
+    const { step, fineStep } = this;
+    if (key === 'PageUp' || key === 'PageDown' || shiftKey) return this.largeStep;
+    if (altKey && fineStep) return fineStep;
+    return step;
+  }
+
+  /**
+   * Get direction (`1` to increase, `-1` to decrease) of value changes for a key press.
+   * Up always increases and Down always decreases values, Left and Right follow the visual direction given by `rtl`.
+   */
+  private getKeyDirection({ key }: KeyboardEvent) {
+    const { vertical, rtl } = this;
+    const direction = rtl ? -1 : 1;
+    switch (key) {
+      case 'PageUp':
+        return 1;
+      case 'PageDown':
+        return -1;
+      case 'ArrowRight':
+        return vertical ? 1 : direction;
+      case 'ArrowLeft':
+        return vertical ? -1 : -direction;
+      case 'ArrowDown':
+        return -1;
+      case 'ArrowUp':
+        return 1;
+      default:
+        return 0;
     }
   }
 
@@ -496,68 +1865,212 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
   handleEvent(e: Event) {
     const knob = e.target as HTMLElement;
     switch (e.type) {
-      case 'mousedown':
-      case 'touchstart':
-        if (!Slider.isValid(e) || this.isKnobClick(e)) return;
-        knob.focus();
-        this.startDrag(e);
-        this.dragging = true;
+      case 'pointerdown':
+        if (this.isDisabled || Slider.isSecondaryClick(e as PointerEvent)) return;
+        if (this.isKnobLocked(Slider.getKnobIndex(knob))) knob.focus();
+        else this.startDrag(e as PointerEvent, knob);
         break;
-      case 'mousemove':
-      case 'touchmove':
-        this.drag(e);
+      case 'pointermove': {
+        const drag = this.drags.get((e as PointerEvent).pointerId);
+        if (drag && 'knob' in drag && this.radial) this.dragArc(e as PointerEvent, drag);
+        else if (drag && 'knob' in drag) this.drag(e as PointerEvent, drag);
+        else if (drag) this.dragRange(e as PointerEvent, drag);
         break;
-      case 'mouseup':
-      case 'touchend':
-        this.dragging = false;
-        this.setActive(false);
+      }
+      case 'pointerup':
+      case 'pointercancel':
+      case 'lostpointercapture':
+        this.endDrag(e as PointerEvent);
         break;
       case 'keydown':
-        this.keyMove(e, this.knobIndex);
+        if (!this.isDisabled && !this.isKnobLocked(this.knobIndex)) this.keyMove(e as KeyboardEvent, this.knobIndex);
         break;
       case 'focus':
         this.knob = knob;
         this.setActive(true, true);
         break;
-      case 'mouseenter':
+      case 'pointerenter':
         this.knob = knob;
         this.setActive(true);
         break;
       case 'blur':
-      case 'mouseleave':
+      case 'pointerleave':
         this.setActive(false);
         break;
     }
   }
 
-  private static hasTouched = false;
+  /**
+   * Check if a pointer event was triggered by a mouse button other than the main one.
+   */
+  private static isSecondaryClick(e: PointerEvent) {
+    return e.pointerType === 'mouse' && e.button !== 0;
+  }
+
+  private createValueEvent(
+    type: CustomEvents,
+    oldValues: number[],
+    source: ValueChangeSource,
+    init?: EventInit,
+    values = this.values,
+    knobValues = this.allowCross ? this.knobValueList : values
+  ) {
+    const { knobIndex } = this;
+    // Dates are returned as ISO strings
+    const detail: ValueChangedDetail = {
+      index: knobIndex,
+      value: this.serializeValues([knobValues[knobIndex]])[0],
+      values: this.serializeValues(values),
+      oldValues: this.serializeValues(oldValues),
+      source,
+      label: this.getAllowedValueLabel(knobValues[knobIndex]),
+      labels: values.map(value => this.getAllowedValueLabel(value)),
+    };
+    return new CustomEvent(type, { detail, ...init });
+  }
+
+  private dispatchValueEvents(values = this.values) {
+    const { lastValues, valueSource: source } = this;
+    this.valueSource = 'api';
+    this.lastValues = [...values];
+    // Skip first render and layout-only updates
+    if (!lastValues || Slider.isEqual(values, lastValues)) {
+      if (!this.committedValues) this.committedValues = [...values];
+      return;
+    }
+    this.dispatchEvent(this.createValueEvent(CustomEvents.valueChanged, lastValues, source) as ValueChangedEvent);
+    if (source === 'api') {
+      this.committedValues = [...values];
+    } else {
+      const init = { bubbles: true, composed: true };
+      this.dispatchEvent(this.createValueEvent(CustomEvents.input, lastValues, source, init) as SliderInputEvent);
+      // Pointer changes are committed when the last drag ends
+      if (!this.dragging) this.commitValue(source);
+    }
+  }
+
+  private commitValue(source: ValueChangeSource) {
+    const { values, committedValues = values } = this;
+    if (!Slider.isEqual(values, committedValues)) {
+      this.committedValues = [...values];
+      this.announce(values);
+      const init = { bubbles: true };
+      this.dispatchEvent(
+        this.createValueEvent(CustomEvents.change, committedValues, source, init) as SliderChangeEvent
+      );
+    }
+  }
 
   /**
-   * Check if an event was triggered by touch.
+   * Announce committed values to screen readers through the live region.
    */
-  private static isTouch(e: Event): e is TouchEvent {
-    return 'touches' in e;
+  private announce(values = this.values) {
+    if (this.$announcer) this.$announcer.textContent = values.map((value, i) => this.formatValue(value, i)).join(', ');
   }
 
   /**
-   * Prevent mobile browsers from handling mouse events (conflicting with touch ones).
-   * If we detected a touch interaction before, we prefer reacting to touch events only.
+   * Apply values changed by the user unless the `value-changing` event is canceled.
+   * Distance constraints are applied around the knob at `knobIndex` when given.
    */
-  private static isValid(event: Event) {
-    const { hasTouched, isTouch } = Slider;
-    if (hasTouched && !isTouch(event)) return false;
-    if (!hasTouched) Slider.hasTouched = isTouch(event);
-    return true;
+  private changeValues(values: number[], source: ValueChangeSource, knobIndex?: number) {
+    // Values of crossing knobs are given in knob order, emitted values are sorted
+    const knobValues = [...values];
+    if (this.allowCross) values = this.constrainValues([...values].sort((a, b) => a - b));
+    else if (knobIndex !== undefined) values = this.constrainValues(values, knobIndex);
+    if (Slider.isEqual(values, this.values) && Slider.isEqual(knobValues, this.knobValues)) {
+      // Nothing changes, so later programmatic changes are not reported with this source
+      this.valueSource = 'api';
+      return;
+    }
+    const init = { cancelable: true };
+    const event = this.createValueEvent(CustomEvents.valueChanging, this.values, source, init, [...values], knobValues);
+    if (this.dispatchEvent(event)) {
+      // Use values from event detail as they may have been adjusted by listeners
+      const detailValues = (event as ValueChangingEvent).detail.values.map(value => Slider.toNumber(value));
+      const adjusted = !Slider.isEqual(detailValues, values);
+      const newValues = adjusted ? this.sanitizeValues(detailValues) : values;
+      // Adjusted values are assigned to knobs in sorted order
+      if (this.allowCross && (adjusted || knobIndex !== undefined)) {
+        this.knobValueList = adjusted ? [...newValues] : knobValues;
+      }
+      // Unchanged values trigger no update that would reset the source for later programmatic changes
+      if (!Slider.isEqual(newValues, this.values)) this.valueSource = source;
+      this.value = this.knobs === 1 ? this.serializeValues(newValues)[0] : this.serializeValues(newValues);
+    }
+  }
+
+  /**
+   * Limit values to the slider range, snap them to step and sort them, then apply distance constraints.
+   */
+  private sanitizeValues(values: number[]) {
+    const { lowestValue, highestValue } = this;
+    const snapped = values.map(value =>
+      value <= lowestValue ? lowestValue : value >= highestValue ? highestValue : this.snapValue(value)
+    );
+    return this.constrainValues(snapped.sort((a, b) => a - b));
+  }
+
+  /**
+   * Change the value of a knob, snapped to step and limited by the slider range and neighboring knobs.
+   */
+  private changeKnobValue(knobIndex: number, value: number, source: ValueChangeSource) {
+    const { knobs, lowestValue, highestValue } = this;
+    const lower = knobs === 1 ? lowestValue : Math.max(lowestValue, this.getPrevNeighborValue(knobIndex));
+    const upper = knobs === 1 ? highestValue : Math.min(highestValue, this.getNextNeighborValue(knobIndex));
+    const values = this.knobValues;
+    const newValue = Math.min(Math.max(this.snapValue(value), lower), upper);
+    if (values[knobIndex] !== newValue) {
+      this.knob = this.knobElement(knobIndex) as HTMLElement;
+      values[knobIndex] = newValue;
+      this.changeValues(values, source, knobIndex);
+    }
   }
 
-  private get valueChangedEvent() {
-    const detail = {
-      index: this.knobIndex,
-      value: this.values[this.knobIndex],
-      values: this.values,
+  /**
+   * Apply `minDistance` and `maxDistance` to values. When `knobIndex` is given, that knob is limited by its
+   * neighbors (or pushes them along in `pushable` mode), otherwise values are adjusted from the lowest up.
+   */
+  private constrainValues(values: number[], knobIndex?: number) {
+    const { min, max, knobs, minDistance, pushable } = this;
+    const maxDistance = this.maxDistance ?? Infinity;
+    const clamp = (value: number, lower: number, upper: number) => Math.min(Math.max(value, lower), upper);
+    const result = [...values];
+    if (knobs < 2 || (!minDistance && maxDistance === Infinity)) return result;
+    const pushUp = (from: number) => {
+      for (let i = from; i < knobs; i++) {
+        result[i] = this.round(clamp(result[i], result[i - 1] + minDistance, result[i - 1] + maxDistance));
+      }
+    };
+    const pushDown = (from: number) => {
+      for (let i = from; i >= 0; i--) {
+        result[i] = this.round(clamp(result[i], result[i + 1] - maxDistance, result[i + 1] - minDistance));
+      }
     };
-    const event = new CustomEvent(CustomEvents.valueChanged, { detail });
-    return event as ValueChangedEvent;
+    if (knobIndex === undefined) {
+      pushUp(1);
+      // Push knobs back down from max, keeping the lowest knob on min
+      result[knobs - 1] = Math.min(result[knobs - 1], max);
+      pushDown(knobs - 2);
+      result[0] = Math.max(result[0], min);
+    } else if (pushable) {
+      // Leave room for the pushed neighbors
+      const lower = min + knobIndex * minDistance;
+      const upper = max - (knobs - 1 - knobIndex) * minDistance;
+      result[knobIndex] = clamp(result[knobIndex], lower, upper);
+      pushUp(knobIndex + 1);
+      pushDown(knobIndex - 1);
+    } else {
+      const prev = result[knobIndex - 1] ?? -Infinity;
+      const next = result[knobIndex + 1] ?? Infinity;
+      const lower = Math.max(prev + minDistance, next - maxDistance);
+      const upper = Math.min(next - minDistance, prev + maxDistance);
+      result[knobIndex] = clamp(result[knobIndex], lower, upper);
+    }
+    return result;
+  }
+
+  private static isEqual(values: number[], otherValues: number[]) {
+    return values.length === otherValues.length && values.every((value, i) => value === otherValues[i]);
   }
 
   private static getKnobIndex(knob: HTMLElement) {
@@ -569,165 +2082,503 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
     return this.knob ? Slider.getKnobIndex(this.knob) : 0;
   }
 
-  private isKnobClick(e: Event) {
-    return !Slider.hasTouched && (e as MouseEvent).button !== 0;
+  private setTooltipValues(values = this.values) {
+    const { knobIndexes, tooltipsEnabled } = this;
+    if (tooltipsEnabled) {
+      knobIndexes.forEach(i => {
+        const tooltipElement = this.tooltipElement(i) as HTMLElement;
+        const tooltipElementValue = tooltipElement.firstElementChild as HTMLSpanElement;
+        if (tooltipElement) tooltipElementValue.innerText = this.formatValue(values[i], i);
+      });
+    }
+  }
+
+  private setAriaValues(i = 0, values = this.values) {
+    const { knobs, min, max } = this;
+    const knob = this.knobElement(i) as HTMLElement;
+    if (knob) {
+      knob.setAttribute('aria-valuenow', `${values[i]}`);
+      knob.setAttribute('aria-valuetext', this.formatValue(values[i], i));
+      knob.setAttribute('aria-valuemin', `${knobs === 1 ? min : this.getPrevNeighborValue(i)}`);
+      knob.setAttribute('aria-valuemax', `${knobs === 1 ? max : this.getNextNeighborValue(i)}`);
+    }
+  }
+
+  private get initialValue() {
+    const { knobs, min, max, step } = this;
+    const valueAttr = this.getAttribute('value');
+    const valueStep = (max - min) / (knobs - 1);
+    const values: number[] = [];
+    this.knobIndexes.forEach(i => {
+      let init = Math.round(i === 0 ? min : i < knobs - 1 ? i * valueStep : max);
+      init -= init % step;
+      if (this.allowedValues) init = this.getNearestAllowedValue(init);
+      values.push(init < min ? min : init > max ? max : init);
+    });
+    if (valueAttr && !this.ranges) values[0] = Slider.toNumber(valueAttr);
+    return values;
+  }
+
+  /**
+   * Convert a number, numeric string, ISO string or `Date` to a number, dates are converted to timestamps.
+   * Date-only ISO strings are read as local midnight to match calendar steps and ticks.
+   */
+  private static toNumber(value: DateValue) {
+    if (value instanceof Date) return value.getTime();
+    if (typeof value === 'number' || !isNaN(Number(value))) return Number(value);
+    const [, year, month, day] = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim()) || [];
+    return year ? new Date(Number(year), Number(month) - 1, Number(day)).getTime() : Date.parse(value);
+  }
+
+  /**
+   * Convert values to ISO strings when `type` is `date` or `datetime`, keeping numbers otherwise.
+   */
+  private serializeValues(values: number[]): (number | string)[] {
+    return this.isTime ? values.map(value => this.toIsoString(value)) : [...values];
+  }
+
+  /**
+   * Format a timestamp as an ISO date in local time for `date` sliders, or as a full ISO string for `datetime`.
+   */
+  private toIsoString(value: number) {
+    const date = new Date(value);
+    if (this.type === 'datetime') return date.toISOString();
+    const pad = (n: number) => `${n}`.padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private get isTime() {
+    return this.type === 'date' || this.type === 'datetime';
+  }
+
+  /**
+   * Calendar interval of `step` when `type` is `date` or `datetime`.
+   */
+  private get timeInterval(): CountableTimeInterval | undefined {
+    const { type, stepUnit } = this;
+    if (!this.isTime) return undefined;
+    return Slider.timeIntervals[stepUnit || (type === 'date' ? 'day' : 'hour')] ?? timeDay;
+  }
+
+  /** Calendar unit of a date `step` in singular, empty for plain numbers. */
+  private get stepUnit() {
+    const { stepValue } = this;
+    return typeof stepValue === 'string' ? /[a-z]+/i.exec(stepValue)?.[0].toLowerCase().replace(/s$/, '') || '' : '';
+  }
+
+  private static timeIntervals: Record<string, CountableTimeInterval> = {
+    millisecond: timeMillisecond,
+    second: timeSecond,
+    minute: timeMinute,
+    hour: timeHour,
+    day: timeDay,
+    week: timeWeek,
+    month: timeMonth,
+    year: timeYear,
+  };
+
+  private setValue(values = this.values) {
+    this.syncKnobValues(values);
+    const knobValues = this.allowCross ? this.knobValueList : values;
+    this.setTooltipValues(knobValues);
+    this.knobIndexes.forEach(i => {
+      this.setAriaValues(i, knobValues);
+      this.setTooltipPosition(i, knobValues);
+      this.setKnobPostion(i, knobValues);
+    });
+    this.segmentIndexes.forEach(i => this.setSegmentPosition(i, values));
+    if (this.radial) this.setArcPath();
+    this.setHistogramSelection(values);
+    this.setInputValues(knobValues);
+    if (this.tooltipsEnabled) this.setMergedTooltips(values);
+    this.rangeIndexes.forEach(i => this.setRangePosition(i, values));
+    this.updateFormValue(values);
+    this.dispatchValueEvents(values);
+  }
+
+  /**
+   * Assign sorted values to knobs in the order of their current values, so that knobs keep their identity after
+   * crossing each other.
+   */
+  private syncKnobValues(values = this.values) {
+    const { knobValueList } = this;
+    const order = values.map((_, i) => i);
+    if (knobValueList.length === values.length) order.sort((a, b) => knobValueList[a] - knobValueList[b]);
+    const knobValues: number[] = [];
+    order.forEach((knobIndex, i) => (knobValues[knobIndex] = values[i]));
+    this.knobValueList = knobValues;
+  }
+
+  private setKnobPostion(i = 0, values = this.initialValue) {
+    const { containerBounds } = this;
+    const knob = this.knobElement(i) as HTMLElement;
+    if (knob && this.radial) {
+      const [x, y] = this.getArcPoint(this.ratioToAngle(this.valueToRatio(values[i])), this.arcRadius);
+      this.resetPosition(knob);
+      knob.style.left = `${x - knob.offsetWidth / 2}px`;
+      knob.style.top = `${y - knob.offsetHeight / 2}px`;
+    } else if (knob) {
+      const knobBounds = this.getBounds(knob);
+      const knobSize = this.vertical ? knobBounds.height : knobBounds.width;
+      const containerSize = this.vertical ? containerBounds.height : containerBounds.width;
+      const position = this.valueToRatio(values[i]) * containerSize - knobSize / 2;
+      this.resetPosition(knob);
+      if (this.vertical) knob.style[this.rtl ? 'bottom' : 'top'] = `${position}px`;
+      else knob.style[this.rtl ? 'right' : 'left'] = `${position}px`;
+    }
+  }
+
+  private setTooltipPosition(i = 0, values = this.values) {
+    const tooltip = this.tooltipElement(i) as HTMLElement;
+    if (tooltip) {
+      this.setTooltipOffset(tooltip, this.valueToRatio(values[i]));
+      this.style.setProperty('--vcf-slider-tooltip-width', `${this.getBounds(tooltip).width}px`);
+    }
+  }
+
+  /**
+   * Center a tooltip at the given ratio of the slider line, or above the knob position on the arc when `radial`.
+   */
+  private setTooltipOffset(tooltip: HTMLElement, ratio: number) {
+    const { containerBounds } = this;
+    const tooltipBounds = this.getBounds(tooltip);
+    if (this.radial) {
+      const [x, y] = this.getArcPoint(this.ratioToAngle(ratio), this.arcRadius);
+      this.resetPosition(tooltip);
+      tooltip.style.left = `${x - tooltipBounds.width / 2}px`;
+      tooltip.style.top = `${y - this.radialKnobSize / 2 - tooltipBounds.height - 4}px`;
+      return;
+    }
+    const tooltipSize = this.vertical ? tooltipBounds.height : tooltipBounds.width;
+    const containerSize = this.vertical ? containerBounds.height : containerBounds.width;
+    const position = ratio * containerSize - tooltipSize / 2;
+    this.resetPosition(tooltip);
+    if (this.vertical) tooltip.style[this.rtl ? 'bottom' : 'top'] = `${position}px`;
+    else tooltip.style[this.rtl ? 'right' : 'left'] = `${position}px`;
+  }
+
+  /**
+   * Resolve the side tooltips are shown on from `tooltipPlacement`, flipping `auto` tooltips to the opposite side
+   * when they don't fit on the default side.
+   */
+  private setTooltipSide() {
+    const { vertical, tooltipPlacement, $container } = this;
+    const [side, oppositeSide] = vertical ? ['end', 'start'] : ['top', 'bottom'];
+    let tooltipSide = tooltipPlacement && [side, oppositeSide].includes(tooltipPlacement) ? tooltipPlacement : side;
+    // Tooltips of a radial slider are always shown above the knobs
+    if (this.radial) tooltipSide = 'top';
+    else if (tooltipPlacement === 'auto' && $container) {
+      const tooltips = Array.from(this.shadowRoot?.querySelectorAll('[part~="tooltip"]') || []) as HTMLElement[];
+      const knob = this.knobElement() as HTMLElement;
+      const knobSize = knob ? this.getBounds(knob).height : 0;
+      const tooltipSize = Math.max(
+        0,
+        ...tooltips.map(t => (vertical ? this.getBounds(t).width : this.getBounds(t).height))
+      );
+      const bounds = this.getBounds($container);
+      const available = this.scrollContainerBounds;
+      const space = vertical ? available.right - bounds.right : bounds.top - available.top;
+      const oppositeSpace = vertical ? bounds.left - available.left : available.bottom - bounds.bottom;
+      if (space < tooltipSize + knobSize / 2 && oppositeSpace > space) tooltipSide = oppositeSide;
+    }
+    this.setAttribute('tooltip-side', tooltipSide);
+  }
+
+  /**
+   * Visible bounds of the nearest scroll container, limited by the viewport.
+   */
+  private get scrollContainerBounds() {
+    let top = 0;
+    let left = 0;
+    let bottom = window.innerHeight;
+    let right = window.innerWidth;
+    if (this.scrollContainer === undefined) this.scrollContainer = this.findScrollContainer();
+    if (this.scrollContainer) {
+      const bounds = this.getBounds(this.scrollContainer);
+      top = Math.max(top, bounds.top);
+      left = Math.max(left, bounds.left);
+      bottom = Math.min(bottom, bounds.bottom);
+      right = Math.min(right, bounds.right);
+    }
+    return { top, left, bottom, right };
+  }
+
+  private findScrollContainer() {
+    let element: Element | null = this;
+    while ((element = element.parentElement || (element.getRootNode() as ShadowRoot).host || null)) {
+      if (/auto|scroll|hidden/.test(getComputedStyle(element).overflow)) return element;
+    }
+    return null;
+  }
+
+  /**
+   * Replace the tooltips of each range with a merged tooltip centered between its knobs while they overlap.
+   */
+  private setMergedTooltips(values = this.values) {
+    const { tooltipSeparator } = this;
+    for (let from = 0; from < this.knobs - 1; from += 2) {
+      const to = from + 1;
+      const merged = this.mergedTooltipElement(from / 2);
+      const fromTooltip = this.tooltipElement(from);
+      const toTooltip = this.tooltipElement(to);
+      if (merged && fromTooltip && toTooltip) {
+        const fromBounds = this.getBounds(fromTooltip);
+        const toBounds = this.getBounds(toTooltip);
+        const overlap =
+          fromBounds.left < toBounds.right &&
+          toBounds.left < fromBounds.right &&
+          fromBounds.top < toBounds.bottom &&
+          toBounds.top < fromBounds.bottom;
+        const mergedValue = merged.firstElementChild as HTMLSpanElement;
+        mergedValue.innerText = [from, to].map(i => this.formatValue(values[i], i)).join(tooltipSeparator);
+        this.setTooltipOffset(merged, (this.valueToRatio(values[from]) + this.valueToRatio(values[to])) / 2);
+        merged.classList.toggle('hidden', !overlap);
+        fromTooltip.classList.toggle('hidden', overlap);
+        toTooltip.classList.toggle('hidden', overlap);
+      }
+    }
+  }
+
+  private resetPosition(element: HTMLElement) {
+    element.style.removeProperty('left');
+    element.style.removeProperty('top');
+    element.style.removeProperty('right');
+    element.style.removeProperty('bottom');
+  }
+
+  private setMarks() {
+    const { $marksContainer, marks = [] } = this;
+    if ($marksContainer) {
+      $marksContainer.innerHTML = '';
+      let markIndex = 0;
+      let zoneIndex = 0;
+      marks.forEach(mark => {
+        const type = 'value' in mark ? 'mark' : 'zone';
+        const index = type === 'mark' ? markIndex++ : zoneIndex++;
+        const element = this.createElement(
+          html`<div part="${type} ${type}-${index}" title="${ifDefined(mark.label)}">
+            ${when(mark.label, () => html`<span part="${type}-label">${mark.label}</span>`)}
+          </div>`
+        );
+        if ('value' in mark) {
+          const position = `${this.valueToRatio(mark.value) * 100}%`;
+          if (this.vertical) element.style[this.rtl ? 'bottom' : 'top'] = position;
+          else element.style[this.rtl ? 'right' : 'left'] = position;
+        } else {
+          this.setLinePosition(element, this.valueToRatio(mark.from), this.valueToRatio(mark.to));
+          if (mark.color) element.style.backgroundColor = mark.color;
+        }
+        $marksContainer.appendChild(element);
+      });
+    }
+  }
+
+  /**
+   * Values of point marks and zone edges.
+   */
+  private get markValues() {
+    return (this.marks || []).flatMap(mark => ('value' in mark ? [mark.value] : [mark.from, mark.to]));
+  }
+
+  /**
+   * Get the value of the mark or zone edge closest to `ratio` within `distance`, between `from` and `to`.
+   */
+  private getNearestMarkValue(value: number, ratio: number, distance: number, from = -Infinity, to = Infinity) {
+    const { markValues } = this;
+    const distanceTo = (markValue: number) => Math.abs(this.valueToRatio(markValue) - ratio);
+    const candidates = markValues.filter(
+      markValue => markValue >= from && markValue <= to && distanceTo(markValue) <= distance
+    );
+    return candidates.reduce(
+      (nearest, markValue) => (distanceTo(markValue) < distanceTo(nearest) ? markValue : nearest),
+      candidates[0] ?? value
+    );
+  }
+
+  private get segmentIndexes() {
+    const { knobs } = this;
+    return Array.from({ length: knobs === 1 ? 1 : Math.floor(knobs / 2) }, (_, i) => i);
+  }
+
+  private segmentElement(i = 0) {
+    return this.shadowRoot?.querySelector(`[part~=segment-${i}]`) as HTMLElement | null;
+  }
+
+  private createSegmentElement(segmentIndex: number) {
+    if (this.radial) return this.createElement(html`<svg part="segment segment-${segmentIndex}"><path></path></svg>`);
+    return this.createElement(html`<div part="segment segment-${segmentIndex}"></div>`);
+  }
+
+  /**
+   * Set segment colors, custom properties set for a segment take precedence over `segmentColors`.
+   */
+  private setSegmentColors() {
+    const { segmentColors = [] } = this;
+    this.segmentIndexes.forEach(i => {
+      const color = segmentColors[i] || 'var(--vcf-slider-line-color)';
+      // Arc segments of a radial slider are strokes colored with `currentColor`
+      const property = this.radial ? 'color' : 'background-color';
+      this.segmentElement(i)?.style.setProperty(property, `var(--vcf-slider-segment-${i}-color, ${color})`);
+    });
   }
 
-  private setTooltipValues(values = this.values) {
-    const { knobIndexes, tooltipsEnabled } = this;
-    if (tooltipsEnabled) {
-      knobIndexes.forEach(i => {
-        const tooltipElement = this.tooltipElement(i) as HTMLElement;
-        const tooltipElementValue = tooltipElement.firstElementChild as HTMLSpanElement;
-        if (tooltipElement) tooltipElementValue.innerText = `${values[i].toFixed(this.decimalCount)}`;
-      });
+  /**
+   * Fill the segment between the knobs of a range, or from the start of the line to a single knob.
+   */
+  private setSegmentPosition(segmentIndex: number, values = this.values) {
+    const segment = this.segmentElement(segmentIndex);
+    if (segment) {
+      const from = this.knobs === 1 ? 0 : this.valueToRatio(values[segmentIndex * 2]);
+      const to = this.valueToRatio(values[this.knobs === 1 ? 0 : segmentIndex * 2 + 1]);
+      if (this.radial) segment.firstElementChild?.setAttribute('d', this.getArcPath(from, to));
+      else this.setLinePosition(segment, from, to);
     }
   }
 
-  private setAriaValues(i = 0, values = this.values) {
-    const { knobs, min, max } = this;
-    const knob = this.knobElement(i) as HTMLElement;
-    if (knob) {
-      knob.setAttribute('aria-valuenow', `${values[i]}`);
-      knob.setAttribute('aria-valuemin', `${knobs === 1 ? min : this.getPrevNeighborValue(i)}`);
-      knob.setAttribute('aria-valuemax', `${knobs === 1 ? max : this.getNextNeighborValue(i)}`);
-    }
+  /**
+   * Position an element along the slider line between two ratios of the line.
+   */
+  private setLinePosition(element: HTMLElement, fromRatio: number, toRatio: number) {
+    const { vertical, rtl } = this;
+    const start = fromRatio * 100;
+    const end = toRatio * 100;
+    this.resetPosition(element);
+    element.style.removeProperty('width');
+    element.style.removeProperty('height');
+    if (vertical) element.style[rtl ? 'bottom' : 'top'] = `${start}%`;
+    else element.style[rtl ? 'right' : 'left'] = `${start}%`;
+    element.style[vertical ? 'height' : 'width'] = `${end - start}%`;
   }
 
-  private get initialValue() {
-    const { knobs, min, max, step } = this;
-    const valueAttr = this.getAttribute('value');
-    const valueStep = (max - min) / (knobs - 1);
-    const values: number[] = [];
-    this.knobIndexes.forEach(i => {
-      let init = Math.round(i === 0 ? min : i < knobs - 1 ? i * valueStep : max);
-      init -= init % step;
-      values.push(init < min ? min : init > max ? max : init);
-    });
-    if (valueAttr && !this.ranges) values[0] = Number(valueAttr);
-    return values;
+  private get dragging() {
+    return this.drags.size > 0;
   }
 
-  private get values() {
-    let { value } = this;
-    if (typeof value === 'string') value = JSON.parse(value[0] === '[' ? value : `[${value}]`);
-    else value = (Array.isArray(value) ? value : [value || 0]) as number[];
-    return value as number[];
+  private getPointerXY(e: PointerEvent) {
+    return e[this.pageXY];
   }
 
-  private setValue(values = this.values) {
-    this.setTooltipValues(values);
+  private startDrag(e: PointerEvent, knob: HTMLElement, originalKnobOffsetXY?: number) {
+    const { xy } = this;
+    const drag: KnobDrag = {
+      knob,
+      originalPointerXY: this.getPointerXY(e),
+      originalKnobOffsetXY: originalKnobOffsetXY ?? this.getBounds(knob)[xy] - this.containerBounds[xy],
+    };
+    this.knob = knob;
+
+    // Raise current knob and tooltip above the others, keeping the DOM (and tab) order
+    const knobIndex = Slider.getKnobIndex(knob);
     this.knobIndexes.forEach(i => {
-      this.setAriaValues(i, values);
-      this.setTooltipPosition(i, values);
-      this.setKnobPostion(i, values);
-      this.setBackgroundColors(values);
+      this.knobElement(i)?.classList.toggle('top', i === knobIndex);
+      this.tooltipElement(i)?.classList.toggle('top', i === knobIndex);
     });
-    this.dispatchEvent(this.valueChangedEvent);
+
+    knob.focus();
+    knob.setPointerCapture(e.pointerId);
+    this.drags.set(e.pointerId, drag);
+    this.toggleAttribute('dragging', true);
+    this.setActive(true);
+    return drag;
   }
 
-  private setKnobPostion(i = 0, values = this.initialValue) {
-    const { min, max, containerBounds } = this;
-    const knob = this.knobElement(i) as HTMLElement;
-    if (knob) {
-      const knobBounds = this.getBounds(knob);
-      const knobSize = this.vertical ? knobBounds.height : knobBounds.width;
-      const containerSize = this.vertical ? containerBounds.height : containerBounds.width;
-      const position = ((values[i] - min) / (max - min)) * containerSize - knobSize / 2;
-      this.resetPosition(knob);
-      if (this.vertical) knob.style[this.rtl ? 'bottom' : 'top'] = `${position}px`;
-      else knob.style[this.rtl ? 'right' : 'left'] = `${position}px`;
+  private endDrag(e: PointerEvent) {
+    const target = e.target as HTMLElement;
+    if (this.drags.delete(e.pointerId)) {
+      if (target.hasPointerCapture(e.pointerId)) target.releasePointerCapture(e.pointerId);
+      this.toggleAttribute('dragging', this.dragging);
+      this.setActive(false);
+      if (!this.dragging) this.commitValue('pointer');
     }
   }
 
-  private setTooltipPosition(i = 0, values = this.values) {
-    const { min, max, containerBounds } = this;
-    const tooltip = this.tooltipElement(i) as HTMLElement;
-    if (tooltip) {
-      const tooltipBounds = this.getBounds(tooltip);
-      const tooltipSize = this.vertical ? tooltipBounds.height : tooltipBounds.width;
-      const containerSize = this.vertical ? containerBounds.height : containerBounds.width;
-      const position = ((values[i] - min) / (max - min)) * containerSize - tooltipSize / 2;
-      this.resetPosition(tooltip);
-      if (this.vertical) tooltip.style[this.rtl ? 'bottom' : 'top'] = `${position}px`;
-      else tooltip.style[this.rtl ? 'right' : 'left'] = `${position}px`;
-      this.style.setProperty('--vcf-slider-tooltip-width', `${tooltipBounds.width}px`);
+  private pressTrack = (e: PointerEvent) => {
+    const { trackClick, vertical, rtl, xy, containerBounds, values } = this;
+    const target = e.target as HTMLElement;
+    if (trackClick === 'none' || this.isDisabled || target.matches('[part~="knob"], [part~="range"]')) return;
+    if (Slider.isSecondaryClick(e)) return;
+    if (this.radial) {
+      this.pressArc(e);
+      return;
     }
-  }
 
-  private resetPosition(element: HTMLElement) {
-    element.style.removeProperty('left');
-    element.style.removeProperty('top');
-    element.style.removeProperty('right');
-    element.style.removeProperty('bottom');
-  }
+    // Get value at pointer position
+    const pointerXY = this.getPointerXY(e);
+    const scrollXY = vertical ? window.scrollY : window.scrollX;
+    const lineSize = vertical ? containerBounds.height : containerBounds.width;
+    const pointerOffsetXY = pointerXY - (containerBounds[xy] + scrollXY);
+    const pct = pointerOffsetXY / lineSize;
+    const value = this.ratioToValue(rtl ? 1 - pct : pct);
 
-  private setBackgroundColors(values = this.values) {
-    const { knobs, min, max, $container, vertical, rtl } = this;
-    const length = max - min;
-    const lineColor = getComputedStyle(this).getPropertyValue('--vcf-slider-line-color').trim();
-    const altLineColor = getComputedStyle(this).getPropertyValue('--vcf-slider-line-alt-color').trim();
-    const direction = vertical ? (rtl ? 'top' : 'bottom') : rtl ? 'left' : 'right';
-    let colors = '';
-    let prevStop = '';
-    const color = (i: number) => (i % 2 ? lineColor : knobs > 3 ? 'transparent' : altLineColor);
-    const indexes = Array.from({ length: knobs }, (_, i) => i);
-    indexes.forEach(i => {
-      const value = values[i];
-      const adjustedValue = value - min < 0 ? 0 : value - min;
-      const stop = `${(adjustedValue / length) * 100}%`;
-      if (i === 0) colors += `${knobs === 1 ? lineColor : 'transparent'} ${stop}, `;
-      else colors += `${color(i)} ${prevStop} ${stop}, `;
-      prevStop = stop;
-    });
-    colors += `transparent ${prevStop} 100%`;
-    $container.style.backgroundImage = `linear-gradient(to ${direction}, ${colors})`;
-  }
+    const i = this.getNearestKnobIndex(value);
+    if (i === -1) return;
+    const knob = this.knobElement(i) as HTMLElement;
 
-  private get dragging() {
-    return typeof this.getAttribute('dragging') === 'string';
-  }
+    if (trackClick === 'jump') {
+      // Center knob on pointer and keep dragging it from there
+      const knobBounds = this.getBounds(knob);
+      const knobSize = vertical ? knobBounds.height : knobBounds.width;
+      this.drag(e, this.startDrag(e, knob, pointerOffsetXY - knobSize / 2));
+      return;
+    }
 
-  private set dragging(state: boolean) {
-    const toggleEvent = state ? document.addEventListener : document.removeEventListener;
-    toggleEvent(Slider.hasTouched ? 'touchmove' : 'mousemove', this);
-    toggleEvent(Slider.hasTouched ? 'touchend' : 'mouseup', this);
-    if (state) this.setAttribute('dragging', '');
-    else this.removeAttribute('dragging');
-  }
+    knob.focus();
+    if (value > values[i]) {
+      this.increaseKnobValueByStep(i, this.largeStep, 'pointer');
+    } else if (value < values[i]) {
+      this.decreaseKnobValueByStep(i, this.largeStep, 'pointer');
+    }
+  };
+
+  /**
+   * Handle presses on a `radial` slider like `pressTrack`, using the angle of the pointer around the center.
+   */
+  private pressArc(e: PointerEvent) {
+    const { values } = this;
+    const ratio = this.getArcRatio(e);
+    const value = this.ratioToValue(ratio);
+    const i = this.getNearestKnobIndex(value);
+    if (i === -1) return;
+    const knob = this.knobElement(i) as HTMLElement;
+
+    if (this.trackClick === 'jump') {
+      this.startDrag(e, knob);
+      this.changeKnobValue(i, this.ratioToValue(ratio), 'pointer');
+      return;
+    }
 
-  private getPointerXY(e: Event) {
-    let pointerPos: number | null = null;
-    if (e instanceof MouseEvent) pointerPos = (e as MouseEvent)[this.pageXY];
-    else if (e instanceof TouchEvent) pointerPos = (e as TouchEvent).touches[0][this.pageXY];
-    return pointerPos;
+    knob.focus();
+    if (value > values[i]) {
+      this.increaseKnobValueByStep(i, this.largeStep, 'pointer');
+    } else if (value < values[i]) {
+      this.decreaseKnobValueByStep(i, this.largeStep, 'pointer');
+    }
   }
 
-  private startDrag = (e: Event) => {
-    const { $knobsContainer, xy, tooltip } = this;
-    this.knob = e.target as HTMLElement;
-    this.originalPointerXY = this.getPointerXY(e);
-    this.originalKnobOffsetXY = this.getBounds(this.knob)[xy] - this.containerBounds[xy];
-    this.setActive(true);
+  /**
+   * Keep focus on the knob or range pressed instead of the slider container.
+   */
+  private preventContainerFocus = (e: MouseEvent) => e.preventDefault();
 
-    // Move current knob and tooltip to top
-    $knobsContainer?.appendChild(this.knob);
-    if (tooltip) $knobsContainer?.appendChild(tooltip);
-  };
+  /**
+   * Get index of the knob closest to `value` that is not locked, or `-1` if all knobs are locked.
+   */
+  private getNearestKnobIndex(value: number) {
+    const { values } = this;
+    return this.knobIndexes
+      .filter(i => !this.isKnobLocked(i))
+      .reduce((nearest, i) => {
+        if (nearest === -1) return i;
+        const distance = Math.abs(values[i] - value);
+        const nearestDistance = Math.abs(values[nearest] - value);
+        // Prefer the later knob when knobs share a value and pointer is after them
+        return distance < nearestDistance || (distance === nearestDistance && value > values[i]) ? i : nearest;
+      }, -1);
+  }
 
-  private drag = (e: Event) => {
-    const {
-      knobIndex: i,
-      vertical,
-      rtl,
-      knob,
-      knobs,
-      originalKnobOffsetXY,
-      originalPointerXY,
-      xy,
-      $container,
-      containerBounds,
-    } = this;
+  private drag = (e: PointerEvent, { knob, originalKnobOffsetXY, originalPointerXY }: KnobDrag) => {
+    const { vertical, rtl, knobs, xy, $container, containerBounds } = this;
+    const i = Slider.getKnobIndex(knob);
 
     if (knob) {
       const knobBounds = this.getBounds(knob);
@@ -739,49 +2590,55 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
       let start = rtl ? lineEnd : lineStart;
       let end = rtl ? lineStart : lineEnd;
 
-      // Set knob limits
-      switch (part) {
-        case 'knob-0': {
-          if (knobs > 1) {
-            const toKnob = $container.querySelector('[part~="knob-1"]') as HTMLElement;
-            end = this.getBounds(toKnob)[xy] - containerBounds[xy];
+      // Set knob limits, pushable and crossing knobs are limited by their values instead
+      if (!this.pushable && !this.allowCross) {
+        switch (part) {
+          case 'knob-0': {
+            if (knobs > 1) {
+              const toKnob = $container.querySelector('[part~="knob-1"]') as HTMLElement;
+              end = this.getBounds(toKnob)[xy] - containerBounds[xy];
+            }
+            break;
           }
-          break;
-        }
-        case `knob-${knobs - 1}`: {
-          if (knobs > 1) {
-            const fromKnob = $container.querySelector(`[part~="knob-${knobs - 2}"]`) as HTMLElement;
+          case `knob-${knobs - 1}`: {
+            if (knobs > 1) {
+              const fromKnob = $container.querySelector(`[part~="knob-${knobs - 2}"]`) as HTMLElement;
+              start = this.getBounds(fromKnob)[xy] - containerBounds[xy];
+            }
+            break;
+          }
+          default: {
+            const fromKnob = $container.querySelector(`[part~="knob-${i - 1}"]`) as HTMLElement;
+            const toKnob = $container.querySelector(`[part~="knob-${i + 1}"]`) as HTMLElement;
             start = this.getBounds(fromKnob)[xy] - containerBounds[xy];
+            end = this.getBounds(toKnob)[xy] - containerBounds[xy];
           }
-          break;
-        }
-        default: {
-          const fromKnob = $container.querySelector(`[part~="knob-${i - 1}"]`) as HTMLElement;
-          const toKnob = $container.querySelector(`[part~="knob-${i + 1}"]`) as HTMLElement;
-          start = this.getBounds(fromKnob)[xy] - containerBounds[xy];
-          end = this.getBounds(toKnob)[xy] - containerBounds[xy];
         }
       }
 
       // Calculate knob position
       requestAnimationFrame(() => {
         const pointerXY = this.getPointerXY(e);
-        if (pointerXY && originalPointerXY) {
+        // Skip frames of drags that have already ended
+        if (this.drags.has(e.pointerId)) {
           let newKnobPositionXY = originalKnobOffsetXY + (pointerXY - originalPointerXY);
           let startLimit = rtl ? newKnobPositionXY >= start : newKnobPositionXY <= start;
           let endLimit = rtl ? newKnobPositionXY <= end : newKnobPositionXY >= end;
           newKnobPositionXY = startLimit ? start : endLimit ? end : newKnobPositionXY;
 
           // Calculate new value
-          let { min, max, step, values: originalValues } = this;
+          let { min, max, step, knobValues: originalValues } = this;
           let values = [...originalValues];
           let multiplier = 0;
           let length = max - min;
           const pct = (newKnobPositionXY + knobSize / 2) / lineSize;
-          let value = pct * length;
 
           // RTL
-          if (rtl) value = length - value;
+          const ratio = rtl ? 1 - pct : pct;
+
+          // Map position to value using scale, relative to min
+          const pointerValue = this.ratioToValue(ratio);
+          let value = pointerValue - min;
 
           // Multiplier
           if (this.decimalCount) {
@@ -812,16 +2669,37 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
           // Remove multiplier
           if (this.decimalCount) value /= multiplier;
 
+          // Snap dates to calendar steps
+          if (this.timeInterval) value = this.snapValue(value);
+
+          // Snap to nearest allowed value between neighboring knobs, allowed values may be closer together than step
+          const [from, to] = this.pushable || this.allowCross ? [] : [values[i - 1], values[i + 1]];
+          if (this.allowedValues) value = this.getNearestAllowedValue(pointerValue, from, to);
+
+          // Snap to marks close to the pointer
+          if (this.snapToMarks) value = this.getNearestMarkValue(value, ratio, knobSize / 2 / lineSize, from, to);
+
           // Set new value
           if (values[i] !== value) {
+            this.knob = knob;
             values[i] = value;
-            this.value = this.knobs === 1 ? value : values;
+            this.changeValues(values, 'pointer', i);
           }
         }
       });
     }
   };
 
+  private dragArc = (e: PointerEvent, { knob }: KnobDrag) => {
+    const i = Slider.getKnobIndex(knob);
+    const ratio = this.getArcRatio(e);
+    // Keep knobs from jumping between the ends of the arc, unless a single knob wraps around. Moving between the
+    // ends is a jump when the shorter way around the circle leads through the gap (or the zero point) of the arc.
+    const distance = Math.abs(ratio - this.valueToRatio(this.knobValues[i])) * this.arcSpan;
+    const jump = distance > 360 - distance;
+    if (!jump || this.wrapsAround) this.changeKnobValue(i, this.ratioToValue(ratio), 'pointer');
+  };
+
   private round(value: number) {
     return parseFloat(value.toFixed(this.decimalCount));
   }
@@ -842,6 +2720,14 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
     return this.tooltips || this.tooltipsAlwaysVisible;
   }
 
+  private mergedTooltipElement(i = 0) {
+    return this.shadowRoot?.querySelector(`[part~=tooltip-merged-${i}]`) as HTMLElement;
+  }
+
+  private get mergedTooltip() {
+    return this.tooltipsEnabled ? this.mergedTooltipElement(Math.floor(this.knobIndex / 2)) : null;
+  }
+
   private get tooltip() {
     return this.tooltipsEnabled ? (this.tooltipElement(this.knobIndex) as HTMLElement) : null;
   }
@@ -859,18 +2745,266 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
   }
 
   private setKnobElements() {
-    const { knobIndexes, $knobsContainer, tooltipsEnabled } = this;
+    const { knobIndexes, rangeIndexes, $knobsContainer, $inputsContainer, tooltipsEnabled } = this;
     if ($knobsContainer) {
       $knobsContainer.innerHTML = '';
+      this.segmentIndexes.forEach(i => $knobsContainer.appendChild(this.createSegmentElement(i)));
+      // Add each range after its first knob to keep the tab order, knobs are stacked above ranges
       knobIndexes.map(i => {
         $knobsContainer.appendChild(this.createKnobElement(i));
         if (tooltipsEnabled) $knobsContainer.appendChild(this.createKnobTooltipElement(i));
+        if (tooltipsEnabled && i % 2) $knobsContainer.appendChild(this.createMergedTooltipElement((i - 1) / 2));
+        if (rangeIndexes.includes(i / 2)) $knobsContainer.appendChild(this.createRangeElement(i / 2));
+      });
+    }
+    if ($inputsContainer) {
+      $inputsContainer.innerHTML = '';
+      knobIndexes.forEach(i => $inputsContainer.appendChild(this.createInputElement(i)));
+    }
+    this.setSegmentColors();
+    this.setKnobStates();
+    this.setKnobLabels();
+  }
+
+  private isKnobLocked(knobIndex: number) {
+    return this.readonly || this.lockedKnobs.includes(knobIndex);
+  }
+
+  private setKnobStates() {
+    const { isDisabled } = this;
+    this.knobIndexes.forEach(i => {
+      const knob = this.knobElement(i) as HTMLElement;
+      if (knob) {
+        // Remove disabled knobs from tab order
+        knob.setAttribute('tabindex', `${isDisabled ? -1 : 0}`);
+        knob.setAttribute('aria-disabled', `${isDisabled}`);
+        knob.setAttribute('aria-readonly', `${this.isKnobLocked(i)}`);
+        if (isDisabled) knob.blur();
+      }
+      const input = this.inputElement(i);
+      if (input) {
+        input.disabled = isDisabled;
+        input.readOnly = this.isKnobLocked(i);
+      }
+    });
+    this.rangeIndexes.forEach(i => {
+      const range = this.rangeElement(i) as HTMLElement;
+      if (range) {
+        range.setAttribute('tabindex', `${isDisabled ? -1 : 0}`);
+        range.setAttribute('aria-disabled', `${isDisabled}`);
+        range.setAttribute('aria-readonly', `${this.isRangeLocked(i)}`);
+        if (isDisabled) range.blur();
+      }
+    });
+  }
+
+  /**
+   * Set accessible names and orientation of knobs and ranges.
+   */
+  private setKnobLabels() {
+    const { knobLabels = [], rangeLabels = [], label, knobs, vertical, tooltipSeparator } = this;
+    const orientation = vertical ? 'vertical' : 'horizontal';
+    this.knobIndexes.forEach(i => {
+      const knob = this.knobElement(i) as HTMLElement;
+      const knobLabel = knobLabels[i] ?? (label ? undefined : knobs === 1 ? 'Value' : `Value ${i + 1}`);
+      // Input fields share the name of their knob
+      [knob, this.inputElement(i)].forEach(element => {
+        if (!element) return;
+        // Fall back to the slider label when no knob label is given
+        if (knobLabel) {
+          element.setAttribute('aria-label', knobLabel);
+          element.removeAttribute('aria-labelledby');
+        } else {
+          element.setAttribute('aria-labelledby', 'label');
+          element.removeAttribute('aria-label');
+        }
       });
+      knob?.setAttribute('aria-orientation', orientation);
+    });
+    this.rangeIndexes.forEach(i => {
+      const range = this.rangeElement(i);
+      const [fromLabel, toLabel] = [knobLabels[i * 2], knobLabels[i * 2 + 1]];
+      const knobsLabel = fromLabel && toLabel ? `${fromLabel}${tooltipSeparator}${toLabel}` : undefined;
+      const rangeLabel = rangeLabels[i] ?? knobsLabel ?? (label ? undefined : 'Range');
+      if (!range) return;
+      if (rangeLabel) {
+        range.setAttribute('aria-label', rangeLabel);
+        range.removeAttribute('aria-labelledby');
+      } else {
+        range.setAttribute('aria-labelledby', 'label');
+        range.removeAttribute('aria-label');
+      }
+      range.setAttribute('aria-orientation', orientation);
+    });
+  }
+
+  private get rangeIndexes() {
+    const { draggableRange, knobs } = this;
+    return draggableRange && knobs > 1 ? Array.from({ length: knobs / 2 }, (_, i) => i) : [];
+  }
+
+  private rangeElement(i = 0) {
+    return this.shadowRoot?.querySelector(`[part~=range-${i}]`);
+  }
+
+  private static getRangeIndex(range: HTMLElement) {
+    const idMatch = /range-(\d+)/.exec(range.getAttribute('part') || '');
+    return idMatch ? Number(idMatch[1]) : 0;
+  }
+
+  private isRangeLocked(rangeIndex: number) {
+    return this.isKnobLocked(rangeIndex * 2) || this.isKnobLocked(rangeIndex * 2 + 1);
+  }
+
+  private createRangeElement(rangeIndex: number) {
+    return this.createElement(
+      html`
+        <div
+          role="slider"
+          part="range range-${rangeIndex}"
+          @keydown="${this.rangeKeyMove}"
+          @pointerdown="${this.pressRange}"
+          @pointermove="${this}"
+          @pointerup="${this}"
+          @pointercancel="${this}"
+          @lostpointercapture="${this}"
+        ></div>
+      `
+    );
+  }
+
+  private setRangePosition(rangeIndex: number, values = this.values) {
+    const range = this.rangeElement(rangeIndex) as HTMLElement;
+    if (range) {
+      const from = values[rangeIndex * 2];
+      const to = values[rangeIndex * 2 + 1];
+      this.setLinePosition(range, this.valueToRatio(from), this.valueToRatio(to));
+      range.setAttribute('aria-valuenow', `${from}`);
+      range.setAttribute('aria-valuetext', `${this.formatValue(from)} – ${this.formatValue(to)}`);
+      const [lowerDelta, upperDelta] = this.getRangeLimits(rangeIndex, values);
+      range.setAttribute('aria-valuemin', `${this.round(from + lowerDelta)}`);
+      range.setAttribute('aria-valuemax', `${this.round(from + upperDelta)}`);
+    }
+  }
+
+  /**
+   * Get the lowest and highest delta a range can be moved by, limited by the slider limits
+   * and the distance to neighboring knobs.
+   */
+  private getRangeLimits(rangeIndex: number, values = this.values) {
+    const { min, max, knobs, minDistance } = this;
+    const maxDistance = this.maxDistance ?? Infinity;
+    const from = rangeIndex * 2;
+    const to = from + 1;
+    let lower = min - values[from];
+    let upper = max - values[to];
+    if (from > 0) {
+      const prev = values[from - 1];
+      lower = Math.max(lower, prev + minDistance - values[from]);
+      upper = Math.min(upper, prev + maxDistance - values[from]);
+    }
+    if (to < knobs - 1) {
+      const next = values[to + 1];
+      lower = Math.max(lower, next - maxDistance - values[to]);
+      upper = Math.min(upper, next - minDistance - values[to]);
     }
+    return [lower, upper];
   }
 
+  /**
+   * Move both knobs of a range by `delta`, keeping the range within its limits.
+   */
+  private moveRange(rangeIndex: number, delta: number, source: ValueChangeSource, originalValues = this.values) {
+    const from = rangeIndex * 2;
+    const to = from + 1;
+    const [lowerDelta, upperDelta] = this.getRangeLimits(rangeIndex, originalValues);
+    const clampedDelta = Math.min(Math.max(delta, lowerDelta), upperDelta);
+    const values = [...this.values];
+    if (this.allowedValues) {
+      // Shift both knobs by the same number of allowed values so that they stay on the list
+      const list = this.allowedValueList;
+      const fromIndex = list.indexOf(this.getNearestAllowedValue(originalValues[from]));
+      const toIndex = list.indexOf(this.getNearestAllowedValue(originalValues[to]));
+      const target = isFinite(delta)
+        ? this.getNearestAllowedValue(originalValues[from] + delta)
+        : list[delta < 0 ? 0 : list.length - 1];
+      let shift = Math.min(Math.max(list.indexOf(target) - fromIndex, -fromIndex), list.length - 1 - toIndex);
+      const fits = (n: number) =>
+        list[fromIndex + n] - originalValues[from] >= lowerDelta &&
+        list[toIndex + n] - originalValues[to] <= upperDelta;
+      while (shift && !fits(shift)) shift -= Math.sign(shift);
+      values[from] = list[fromIndex + shift];
+      values[to] = list[toIndex + shift];
+    } else {
+      values[from] = this.round(originalValues[from] + clampedDelta);
+      values[to] = this.round(originalValues[to] + clampedDelta);
+    }
+    if (values[from] !== this.values[from] || values[to] !== this.values[to]) {
+      this.knob = this.knobElement(from) as HTMLElement;
+      this.changeValues(values, source);
+    }
+  }
+
+  private pressRange = (e: PointerEvent) => {
+    const range = e.target as HTMLElement;
+    const rangeIndex = Slider.getRangeIndex(range);
+    if (this.isDisabled || Slider.isSecondaryClick(e)) return;
+    range.focus();
+    if (this.isRangeLocked(rangeIndex)) return;
+    range.setPointerCapture(e.pointerId);
+    this.drags.set(e.pointerId, {
+      rangeIndex,
+      originalPointerXY: this.getPointerXY(e),
+      originalValues: [...this.values],
+    });
+    this.toggleAttribute('dragging', true);
+  };
+
+  private dragRange = (e: PointerEvent, { rangeIndex, originalPointerXY, originalValues }: RangeDrag) => {
+    const { vertical, rtl, containerBounds, step } = this;
+    const lineSize = vertical ? containerBounds.height : containerBounds.width;
+    const pct = (this.getPointerXY(e) - originalPointerXY) / lineSize;
+    const from = originalValues[rangeIndex * 2];
+    // Calculate delta using scale so that ranges follow the pointer on non-linear scales
+    const delta = this.ratioToValue(this.valueToRatio(from) + (rtl ? -pct : pct)) - from;
+    // Round to step, dates move so that the range start lands on a calendar step
+    const stepDelta = this.timeInterval ? this.snapValue(from + delta) - from : Math.round(delta / step) * step;
+    this.moveRange(rangeIndex, stepDelta, 'pointer', originalValues);
+  };
+
+  private rangeKeyMove = (e: KeyboardEvent) => {
+    const rangeIndex = Slider.getRangeIndex(e.target as HTMLElement);
+    let delta = this.getKeyDirection(e) * this.getKeyStep(e);
+    if (this.isDisabled || this.isRangeLocked(rangeIndex)) return;
+    switch (e.key) {
+      case 'Home':
+        delta = -Infinity;
+        break;
+      case 'End':
+        delta = Infinity;
+        break;
+      default: {
+        const from = this.values[rangeIndex * 2];
+        // Move by one allowed value, or convert calendar steps to a time difference from the range start
+        if (this.allowedValues && delta) {
+          delta = (delta > 0 ? this.getNextStepValue(from) : this.getPrevStepValue(from)) - from;
+        } else if (this.timeInterval) {
+          delta = this.getNextStepValue(from, delta) - from;
+        } else if (this.step && Math.abs(delta) !== this.fineStep) {
+          // Keep page steps on the step grid while still moving at least one step
+          delta =
+            Math.sign(delta) * Math.max(this.step, this.round(Math.round(Math.abs(delta) / this.step) * this.step));
+        }
+      }
+    }
+    if (delta) {
+      this.moveRange(rangeIndex, delta, 'keyboard');
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  };
+
   private createKnobElement(knobIndex: number) {
-    const passiveHandleEvent = { handleEvent: (e: Event) => this.handleEvent(e), passive: true };
     const handleEvent = this as EventListenerObject;
     const isAltKnob = knobIndex % 2 ? 'alt-knob' : '';
     return this.createElement(
@@ -878,14 +3012,17 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
         <div
           role="slider"
           part="knob ${isAltKnob} knob-${knobIndex}"
-          tabindex="${knobIndex + 1}"
+          tabindex="0"
           @focus="${handleEvent}"
           @blur="${handleEvent}"
           @keydown="${handleEvent}"
-          @mousedown="${handleEvent}"
-          @mouseenter="${handleEvent}"
-          @mouseleave="${handleEvent}"
-          @touchstart="${passiveHandleEvent}"
+          @pointerdown="${handleEvent}"
+          @pointermove="${handleEvent}"
+          @pointerup="${handleEvent}"
+          @pointercancel="${handleEvent}"
+          @lostpointercapture="${handleEvent}"
+          @pointerenter="${handleEvent}"
+          @pointerleave="${handleEvent}"
         ></div>
       `
     );
@@ -902,61 +3039,191 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
     );
   }
 
+  private createInputElement(knobIndex: number) {
+    return this.createElement(
+      html`
+        <input
+          part="input input-${knobIndex}"
+          type="text"
+          inputmode="decimal"
+          autocomplete="off"
+          @focus="${this.editInput}"
+          @blur="${this.formatInput}"
+          @input="${this.stopInputEvent}"
+          @change="${this.commitInput}"
+        />
+      `
+    );
+  }
+
+  private inputElement(i = 0) {
+    return this.shadowRoot?.querySelector(`[part~=input-${i}]`) as HTMLInputElement | null;
+  }
+
+  /**
+   * Show formatted values in input fields, or the plain value in the field being edited.
+   */
+  private setInputValues(values = this.knobValues) {
+    this.knobIndexes.forEach(i => {
+      const input = this.inputElement(i);
+      if (input) {
+        input.value =
+          input === this.shadowRoot?.activeElement ? this.getInputValue(values[i]) : this.formatValue(values[i], i);
+        this.setInputInvalid(input, false);
+      }
+    });
+  }
+
+  /**
+   * Plain value shown in the input field being edited, an ISO string for dates.
+   */
+  private getInputValue(value: number) {
+    return this.isTime ? this.toIsoString(value) : `${value}`;
+  }
+
+  private setInputInvalid(input: HTMLInputElement, invalid: boolean) {
+    input.toggleAttribute('invalid', invalid);
+    input.setAttribute('aria-invalid', `${invalid}`);
+  }
+
+  private static getInputIndex(input: HTMLInputElement) {
+    const idMatch = /input-(\d+)/.exec(input.getAttribute('part') || '');
+    return idMatch ? Number(idMatch[1]) : 0;
+  }
+
+  private editInput = (e: FocusEvent) => {
+    const input = e.target as HTMLInputElement;
+    if (!input.hasAttribute('invalid')) input.value = this.getInputValue(this.knobValues[Slider.getInputIndex(input)]);
+    input.select();
+  };
+
+  private formatInput = (e: FocusEvent) => {
+    // Keep invalid entries visible until they are corrected
+    if (!(e.target as HTMLInputElement).hasAttribute('invalid')) this.setInputValues();
+  };
+
+  // Native input events are composed, keep them from being mistaken for slider input events
+  private stopInputEvent = (e: Event) => e.stopPropagation();
+
+  /**
+   * Apply a typed value, snapped to step and limited by neighboring knobs like keyboard changes.
+   */
+  private commitInput = (e: Event) => {
+    const input = e.target as HTMLInputElement;
+    const knobIndex = Slider.getInputIndex(input);
+    const value = this.parseValue(input.value);
+    // Values outside of the slider range are clamped, only entries that are not values are kept as invalid
+    const invalid = isNaN(value);
+    this.setInputInvalid(input, invalid);
+    if (invalid || this.isDisabled || this.isKnobLocked(knobIndex)) return;
+    this.changeKnobValue(knobIndex, value, 'keyboard');
+    this.setInputValues();
+  };
+
+  /**
+   * Parse a typed value, accepting allowed value labels and numbers formatted with the slider locale.
+   */
+  private parseValue(text: string) {
+    if (this.isTime) return Slider.toNumber(text.trim() || NaN);
+    const allowed = this.allowedValues?.find(item => typeof item !== 'number' && item.label === text.trim());
+    if (allowed) return (allowed as AllowedValue).value;
+    const parts = (this.numberFormat || new Intl.NumberFormat(this.locale)).formatToParts(1000.1);
+    const group = parts.find(part => part.type === 'group')?.value;
+    const decimal = parts.find(part => part.type === 'decimal')?.value || '.';
+    let number = text.trim();
+    if (group) number = number.split(group).join('');
+    number = number
+      .split(decimal)
+      .join('.')
+      .replace(/[^\d.eE+-]/g, '');
+    return number ? Number(number) : NaN;
+  }
+
+  private snapValue(value: number) {
+    const { min, step, timeInterval } = this;
+    if (this.allowedValues) return this.getNearestAllowedValue(value);
+    if (timeInterval) {
+      // Snap to the closest calendar step counted from min
+      const start = new Date(min);
+      const count = Math.floor(timeInterval.count(start, new Date(value)) / (step || 1)) * (step || 1);
+      const from = timeInterval.offset(start, count).getTime();
+      const to = timeInterval.offset(start, count + (step || 1)).getTime();
+      return value - from < to - value ? from : to;
+    }
+    return this.round(min + Math.round((value - min) / step) * step);
+  }
+
+  private createMergedTooltipElement(rangeIndex: number) {
+    return this.createElement(
+      html`
+        <div part="tooltip tooltip-merged tooltip-merged-${rangeIndex}" class="hidden">
+          <span part="tooltip-value"></span>
+          <div part="tooltip-triangle"></div>
+        </div>
+      `
+    );
+  }
+
   private getPrevNeighborValue(knobIndex: number) {
-    const { values, step, min } = this;
+    const { values, step, min, minDistance } = this;
+    if (this.allowCross) return min;
+    // Pushable knobs can move until the pushed neighbors reach the slider limit
+    if (this.pushable) return min + knobIndex * minDistance;
     let neighboringValue;
-    neighboringValue = values[knobIndex - 1];
-    const neighborPrecisionOffset = neighboringValue % step;
+    neighboringValue = values[knobIndex - 1] + minDistance;
+    const neighborPrecisionOffset = this.allowedValues || this.isTime ? 0 : neighboringValue % step;
     if (neighborPrecisionOffset) neighboringValue += step - neighborPrecisionOffset;
     return neighboringValue || min;
   }
 
   private getNextNeighborValue(knobIndex: number) {
-    const { values, step, max } = this;
+    const { values, step, max, knobs, minDistance } = this;
+    if (this.allowCross) return max;
+    if (this.pushable) return max - (knobs - 1 - knobIndex) * minDistance;
     let neighboringValue;
-    neighboringValue = values[knobIndex + 1];
-    const neighborPrecisionOffset = neighboringValue % step;
+    neighboringValue = values[knobIndex + 1] - minDistance;
+    const neighborPrecisionOffset = this.allowedValues || this.isTime ? 0 : neighboringValue % step;
     if (neighborPrecisionOffset) neighboringValue -= neighborPrecisionOffset;
     return neighboringValue || max;
   }
 
-  private decreaseKnobValue({ knobIndex, single, first = this.min, other }: KnobValueOptions) {
-    if (this.knobs === 1) {
-      this.value = single;
-    } else {
-      if (knobIndex === 0) this.values[knobIndex] = first;
-      else this.values[knobIndex] = other;
-      this.requestUpdate('value', [...this.values]);
-    }
+  private decreaseKnobValue({ knobIndex, single, first = this.min, other, source }: KnobValueOptions) {
+    const values = this.knobValues;
+    if (this.knobs === 1) values[0] = single;
+    else if (knobIndex === 0) values[knobIndex] = first;
+    else values[knobIndex] = other;
+    this.changeValues(values, source, knobIndex);
   }
 
-  private increaseKnobValue({ knobIndex, single, last = this.max, other }: KnobValueOptions) {
-    if (this.knobs === 1) {
-      this.value = single;
-    } else {
-      if (knobIndex === this.knobs - 1) this.values[knobIndex] = last;
-      else this.values[knobIndex] = other;
-      this.requestUpdate('value', [...this.values]);
-    }
+  private increaseKnobValue({ knobIndex, single, last = this.max, other, source }: KnobValueOptions) {
+    const values = this.knobValues;
+    if (this.knobs === 1) values[0] = single;
+    else if (knobIndex === this.knobs - 1) values[knobIndex] = last;
+    else values[knobIndex] = other;
+    this.changeValues(values, source, knobIndex);
   }
 
-  private decreaseKnobValueByStep(knobIndex: number) {
-    const { min, values, step } = this;
+  private decreaseKnobValueByStep(knobIndex: number, step = this.step, source: ValueChangeSource = 'keyboard') {
+    const { lowestValue: min, knobValues: values } = this;
     this.decreaseKnobValue({
       knobIndex,
+      source,
+      // Use the smallest number between max value and requested value, or loop around to max.
+      single: this.wrapsAround
+        ? this.wrapValue(this.getPrevStepValue(values[0], step))
+        : Math.max(min, this.getPrevStepValue(values[0], step)),
       // Use the smallest number between max value and requested value.
-      single: Math.max(min, values[0] - step),
-      // Use the smallest number between max value and requested value.
-      first: Math.max(min, values[0] - step),
+      first: Math.max(min, this.getPrevStepValue(values[0], step)),
       // Use the smallest number between max value, requested value, and the neighboring value.
-      other: Math.max(min, values[knobIndex] - step, this.getPrevNeighborValue(knobIndex)),
+      other: Math.max(min, this.getPrevStepValue(values[knobIndex], step), this.getPrevNeighborValue(knobIndex)),
     });
   }
 
-  private decreaseKnobValueToLowest(knobIndex: number) {
-    const { min } = this;
+  private decreaseKnobValueToLowest(knobIndex: number, source: ValueChangeSource = 'keyboard') {
+    const { lowestValue: min } = this;
     this.decreaseKnobValue({
       knobIndex,
+      source,
       single: min,
       first: min,
       // Use the biggest number between min value and the neighboring value.
@@ -964,27 +3231,31 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
     });
   }
 
-  private increaseKnobValueByStep(knobIndex: number) {
-    const { step, max, values } = this;
+  private increaseKnobValueByStep(knobIndex: number, step = this.step, source: ValueChangeSource = 'keyboard') {
+    const { highestValue: max, knobValues: values } = this;
     this.increaseKnobValue({
       knobIndex,
+      source,
+      // Use the smallest number between max value and requested value, or loop around to min.
+      single: this.wrapsAround
+        ? this.wrapValue(this.getNextStepValue(values[0], step))
+        : Math.min(max, this.getNextStepValue(values[0], step)),
       // Use the smallest number between max value and requested value.
-      single: Math.min(max, values[0] + step),
-      // Use the smallest number between max value and requested value.
-      last: Math.min(max, values[knobIndex] + step),
+      last: Math.min(max, this.getNextStepValue(values[knobIndex], step)),
       // Use the smallest number between max value, requested value, and the neighboring value.
-      other: Math.min(max, values[knobIndex] + step, this.getNextNeighborValue(knobIndex)),
+      other: Math.min(max, this.getNextStepValue(values[knobIndex], step), this.getNextNeighborValue(knobIndex)),
     });
   }
 
-  private increaseKnobValueToHighest(knobIndex: number) {
-    const { max } = this;
+  private increaseKnobValueToHighest(knobIndex: number, source: ValueChangeSource = 'keyboard') {
+    const { highestValue: max } = this;
     this.increaseKnobValue({
       knobIndex,
+      source,
       single: max,
       last: max,
       // Use the smallest number between max value and the neighboring value.
-      other: Math.min(this.max, this.getNextNeighborValue(knobIndex)),
+      other: Math.min(max, this.getNextNeighborValue(knobIndex)),
     });
   }
 
@@ -996,6 +3267,8 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
       if (active) {
         this.knob.classList.add('active');
         this.tooltip?.classList.add('active');
+        this.mergedTooltip?.classList.add('active');
+        if (this.tooltipsEnabled) this.setTooltipSide();
         if (timeout) {
           // Debouncer timer
           clearTimeout(this.tooltipActiveTimeout);
@@ -1004,40 +3277,26 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
       } else if (!(this.knob.matches(':hover') || this.dragging)) {
         this.knob.classList.remove('active');
         this.tooltip?.classList.remove('active');
+        this.mergedTooltip?.classList.remove('active');
       }
     }
   }
 
-  private keyMove(event: Event, knobIndex: number) {
-    let flag = false;
-    const key = (event as KeyboardEvent).key || (event as KeyboardEvent).keyCode;
-    switch (key) {
-      case 'ArrowLeft':
-      case 37:
-      case 'ArrowDown':
-      case 40:
-        this.decreaseKnobValueByStep(knobIndex);
-        flag = true;
-        break;
-      case 'ArrowRight':
-      case 39:
-      case 'ArrowUp':
-      case 38:
-        this.increaseKnobValueByStep(knobIndex);
-        flag = true;
-        break;
+  private keyMove(event: KeyboardEvent, knobIndex: number) {
+    let flag = true;
+    const step = this.getKeyStep(event);
+    const direction = this.getKeyDirection(event);
+    switch (event.key) {
       case 'Home':
-      case 36:
         this.decreaseKnobValueToLowest(knobIndex);
-        flag = true;
         break;
       case 'End':
-      case 35:
         this.increaseKnobValueToHighest(knobIndex);
-        flag = true;
         break;
       default:
-        break;
+        if (direction > 0) this.increaseKnobValueByStep(knobIndex, step);
+        else if (direction < 0) this.decreaseKnobValueByStep(knobIndex, step);
+        else flag = false;
     }
     if (flag) {
       event.preventDefault();
@@ -1046,7 +3305,7 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
     this.setActive(true, true);
   }
 
-  private getBounds(el: HTMLElement) {
+  private getBounds(el: Element) {
     return el.getBoundingClientRect();
   }
 
@@ -1059,7 +3318,7 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
   }
 
   private sort() {
-    this.value = this.values.sort((a, b) => a - b);
+    this.value = this.serializeValues(this.values.sort((a, b) => a - b));
   }
 
   private isSorted(values = this.values) {
@@ -1067,7 +3326,7 @@ export class Slider extends CustomEventMixin(ThemableMixin(LitElement)) {
   }
 }
 
-export { ValueChangedEvent };
+export { ValueChangedEvent, ValueChangingEvent, SliderInputEvent, SliderChangeEvent };
 
 declare global {
   interface HTMLElementTagNameMap {
@@ -1075,10 +3334,64 @@ declare global {
   }
 }
 
+export type TrackClick = 'jump' | 'step' | 'none';
+
+export type TickLabels = ((value: number) => string) | Record<number, string>;
+
+export interface AllowedValue {
+  value: number;
+  label?: string;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface PointMark {
+  value: number;
+  label?: string;
+}
+
+export interface ZoneMark {
+  from: number;
+  to: number;
+  label?: string;
+  color?: string;
+}
+
+export type SliderMark = PointMark | ZoneMark;
+
+export type TooltipPlacement = 'top' | 'bottom' | 'start' | 'end' | 'auto';
+
+export type SliderScale = 'linear' | 'log' | 'pow' | 'sqrt';
+
+export type SliderType = 'number' | 'date' | 'datetime';
+
+export type DateValue = number | string | Date;
+
+export type ValueFormatter = (value: number, index?: number) => string;
+
+export type FormValueFormat = 'entries' | 'list';
+
+interface KnobDrag {
+  knob: HTMLElement;
+  originalPointerXY: number;
+  originalKnobOffsetXY: number;
+}
+
+interface RangeDrag {
+  rangeIndex: number;
+  originalPointerXY: number;
+  originalValues: number[];
+}
+
 interface KnobValueOptions {
   knobIndex: number;
   single: number;
   first?: number;
   last?: number;
   other: number;
+  source: ValueChangeSource;
 }
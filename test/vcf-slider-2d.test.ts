@@ -0,0 +1,63 @@
+import { fixture, expect, oneEvent } from '@open-wc/testing';
+import { html } from 'lit/static-html.js';
+import { Slider2D } from '../src/vcf-slider-2d.js';
+import '../vcf-slider-2d.js';
+
+describe('VcfSlider2D', () => {
+  it('passes the a11y audit', async () => {
+    const el: Slider2D = await fixture(html`<vcf-slider-2d axes></vcf-slider-2d>`);
+
+    await expect(el).shadowDom.to.be.accessible();
+  });
+
+  it('moves on both axes with arrow keys', async () => {
+    const el: Slider2D = await fixture(html`<vcf-slider-2d x="10" y="10" step-y="5"></vcf-slider-2d>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob"]') as HTMLElement;
+    const listener = oneEvent(el, 'value-changed');
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowUp' }));
+    const { detail } = await listener;
+
+    expect(detail).to.deep.equal({ x: 10, y: 15, source: 'keyboard' });
+  });
+
+  it('drags the knob relative to where it was pressed', async () => {
+    const el: Slider2D = await fixture(html`<vcf-slider-2d x="50" y="50"></vcf-slider-2d>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob"]') as HTMLElement;
+    const pad = el.shadowRoot?.querySelector('[part~="pad"]') as HTMLElement;
+    const { left, top, width, height } = knob.getBoundingClientRect();
+    const init = { pointerId: 1, pointerType: 'mouse', button: 0, clientY: top + height / 2 };
+    const clientX = left + width / 2 + 4;
+    knob.dispatchEvent(new PointerEvent('pointerdown', { ...init, clientX, bubbles: true }));
+    await el.updateComplete;
+    expect([el.x, el.y]).to.deep.equal([50, 50]);
+
+    pad.dispatchEvent(new PointerEvent('pointermove', { ...init, clientX: clientX + pad.clientWidth / 10 }));
+    await el.updateComplete;
+    expect([el.x, el.y]).to.deep.equal([60, 50]);
+  });
+
+  it('exposes both values in aria-valuetext', async () => {
+    const el: Slider2D = await fixture(html`<vcf-slider-2d x="10" y="20"></vcf-slider-2d>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob"]') as HTMLElement;
+
+    expect(knob.getAttribute('aria-valuetext')).to.equal('X 10, Y 20');
+  });
+
+  it('clamps initial values outside of the range', async () => {
+    const el: Slider2D = await fixture(html`<vcf-slider-2d x="150" y="-20"></vcf-slider-2d>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob"]') as HTMLElement;
+
+    expect([el.x, el.y]).to.deep.equal([100, 0]);
+    expect(knob.getAttribute('aria-valuetext')).to.equal('X 100, Y 0');
+  });
+
+  it('clamps and snaps values when the range or step changes', async () => {
+    const el: Slider2D = await fixture(html`<vcf-slider-2d x="80" y="33"></vcf-slider-2d>`);
+    const listener = oneEvent(el, 'value-changed');
+    el.maxX = 50;
+    el.stepY = 10;
+    const { detail } = await listener;
+
+    expect(detail).to.deep.equal({ x: 50, y: 30, source: 'api' });
+  });
+});
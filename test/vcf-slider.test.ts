@@ -1,4 +1,4 @@
-import { fixture, expect } from '@open-wc/testing';
+import { fixture, expect, nextFrame, oneEvent } from '@open-wc/testing';
 import { html } from 'lit/static-html.js';
 import { Slider } from '../src/vcf-slider.js';
 import '../vcf-slider.js';
@@ -9,4 +9,793 @@ describe('VcfSlider', () => {
 
     await expect(el).shadowDom.to.be.accessible();
   });
+
+  it('passes the a11y audit with ranges and tooltips', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider label="Price" ranges="1" draggable-range tooltips-always-visible></vcf-slider>`
+    );
+
+    await expect(el).shadowDom.to.be.accessible();
+  });
+
+  it('passes the a11y audit in vertical mode with knob labels', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider vertical ranges="1" knob-labels='["Minimum price", "Maximum price"]'></vcf-slider>`
+    );
+
+    await expect(el).shadowDom.to.be.accessible();
+  });
+
+  it('submits its value with the parent form', async () => {
+    const form: HTMLFormElement = await fixture(html`<form><vcf-slider name="amount" value="42"></vcf-slider></form>`);
+    const el = form.querySelector('vcf-slider') as Slider;
+    await el.updateComplete;
+
+    expect(new FormData(form).get('amount')).to.equal('42');
+  });
+
+  it('submits an entry for each knob with the parent form', async () => {
+    const form: HTMLFormElement = await fixture(
+      html`<form><vcf-slider name="price" ranges="1" value="20,80"></vcf-slider></form>`
+    );
+    const el = form.querySelector('vcf-slider') as Slider;
+    await el.updateComplete;
+
+    expect(new FormData(form).getAll('price')).to.deep.equal(['20', '80']);
+  });
+
+  it('submits knob values as a list with form-value-format="list"', async () => {
+    const form: HTMLFormElement = await fixture(
+      html`<form><vcf-slider name="price" ranges="1" value="20,80" form-value-format="list"></vcf-slider></form>`
+    );
+    const el = form.querySelector('vcf-slider') as Slider;
+    await el.updateComplete;
+
+    expect(new FormData(form).get('price')).to.equal('20,80');
+  });
+
+  it('restores the default values when the form is reset', async () => {
+    const form: HTMLFormElement = await fixture(
+      html`<form><vcf-slider name="price" ranges="1" value="20,80"></vcf-slider></form>`
+    );
+    const el = form.querySelector('vcf-slider') as Slider;
+    el.value = [30, 60];
+    await el.updateComplete;
+    form.reset();
+    await el.updateComplete;
+
+    expect(el.values).to.deep.equal([20, 80]);
+    expect(new FormData(form).getAll('price')).to.deep.equal(['20', '80']);
+  });
+
+  it('reports values off step as invalid', async () => {
+    const el: Slider = await fixture(html`<vcf-slider step="10" value="15"></vcf-slider>`);
+
+    expect(el.checkValidity()).to.be.false;
+    expect(el.validity.stepMismatch).to.be.true;
+    expect(el.matches(':invalid')).to.be.true;
+
+    el.value = 20;
+    await el.updateComplete;
+
+    expect(el.checkValidity()).to.be.true;
+    expect(el.matches(':invalid')).to.be.false;
+  });
+
+  it('does not fire value-changed without a value change', async () => {
+    let fired = false;
+    await fixture(html`<vcf-slider tooltips @value-changed="${() => (fired = true)}"></vcf-slider>`);
+    await nextFrame();
+
+    expect(fired).to.be.false;
+  });
+
+  it('fires input and change events on keyboard changes', async () => {
+    const el: Slider = await fixture(html`<vcf-slider value="10"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    const listener = oneEvent(el, 'change');
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    const { detail } = await listener;
+
+    expect(detail.values).to.deep.equal([11]);
+    expect(detail.oldValues).to.deep.equal([10]);
+    expect(detail.source).to.equal('keyboard');
+  });
+
+  it('pushes neighboring knobs to keep the minimum distance', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider ranges="1" value="20,30" min-distance="10" pushable></vcf-slider>`
+    );
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    const listener = oneEvent(el, 'change');
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    const { detail } = await listener;
+
+    expect(detail.values).to.deep.equal([21, 31]);
+  });
+
+  it('lets knobs cross while keeping the value sorted', async () => {
+    const el: Slider = await fixture(html`<vcf-slider ranges="1" value="20,21" allow-cross></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    const listener = oneEvent(el, 'change');
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'PageUp' }));
+    const { detail } = await listener;
+
+    expect(detail.values).to.deep.equal([21, 30]);
+    expect(el.knobValues).to.deep.equal([30, 21]);
+  });
+
+  it('snaps values typed in input fields to step', async () => {
+    const el: Slider = await fixture(html`<vcf-slider inputs value="10"></vcf-slider>`);
+    const input = el.shadowRoot?.querySelector('[part~="input-0"]') as HTMLInputElement;
+    input.value = '42.4';
+    input.dispatchEvent(new Event('change'));
+    await el.updateComplete;
+
+    expect(el.value).to.equal(42);
+  });
+
+  it('wraps the knob of a radial slider around past max', async () => {
+    const el: Slider = await fixture(html`<vcf-slider radial wrap max="360" step="15" value="360"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    const listener = oneEvent(el, 'change');
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowUp' }));
+    const { detail } = await listener;
+
+    expect(detail.values).to.deep.equal([15]);
+  });
+
+  it('steps dates by calendar units and returns ISO strings', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider type="date" min="2024-01-01" max="2024-12-31" step="1 month" value="2024-03-01"></vcf-slider>`
+    );
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    const listener = oneEvent(el, 'value-changed');
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    const { detail } = await listener;
+
+    expect(detail.value).to.equal('2024-04-01');
+    expect(detail.values).to.deep.equal(['2024-04-01']);
+    expect(detail.oldValues).to.deep.equal(['2024-03-01']);
+    expect(el.value).to.equal('2024-04-01');
+  });
+
+  it('changes knob values through the public API with neighbor limits', async () => {
+    const el: Slider = await fixture(html`<vcf-slider ranges="1" value="20,30"></vcf-slider>`);
+    const listener = oneEvent(el, 'value-changed');
+    el.stepUp(0, 3);
+    const { detail } = await listener;
+
+    expect(detail.values).to.deep.equal([23, 30]);
+    expect(detail.source).to.equal('api');
+
+    el.setKnobValue(0, 50);
+    expect(el.values).to.deep.equal([30, 30]);
+
+    el.reset();
+    expect(el.values).to.deep.equal([20, 30]);
+  });
+
+  it('removes knobs from the tab order and ignores keys when disabled', async () => {
+    const el: Slider = await fixture(html`<vcf-slider disabled value="10"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    await el.updateComplete;
+
+    expect(knob.getAttribute('tabindex')).to.equal('-1');
+    expect(knob.getAttribute('aria-disabled')).to.equal('true');
+    expect(el.values).to.deep.equal([10]);
+  });
+
+  it('keeps readonly knobs focusable but ignores keys', async () => {
+    const el: Slider = await fixture(html`<vcf-slider readonly value="10"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    await el.updateComplete;
+
+    expect(knob.getAttribute('tabindex')).to.equal('0');
+    expect(knob.getAttribute('aria-readonly')).to.equal('true');
+    expect(el.values).to.deep.equal([10]);
+  });
+
+  it('only moves knobs that are not locked', async () => {
+    const el: Slider = await fixture(html`<vcf-slider ranges="1" value="20,30" locked-knobs="[0]"></vcf-slider>`);
+    const [locked, unlocked] = ['knob-0', 'knob-1'].map(
+      part => el.shadowRoot?.querySelector(`[part~="${part}"]`) as HTMLElement
+    );
+    locked.focus();
+    locked.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    unlocked.focus();
+    unlocked.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    await el.updateComplete;
+
+    expect(locked.getAttribute('aria-readonly')).to.equal('true');
+    expect(el.values).to.deep.equal([20, 31]);
+  });
+
+  it('uses fraction digits from format options over the step decimals', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider step="0.5" value="1.5" format-options='{"maximumFractionDigits": 0}'></vcf-slider>`
+    );
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+
+    expect(knob.getAttribute('aria-valuetext')).to.equal('2');
+  });
+
+  it('starts the log scale at a positive value without changing min', async () => {
+    const el: Slider = await fixture(html`<vcf-slider scale="log" max="1000" value="10"></vcf-slider>`);
+    await el.updateComplete;
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+
+    expect(el.min).to.equal(0);
+    expect(knob.style.left).not.to.contain('NaN');
+
+    el.stepDown(0, 100);
+    await el.updateComplete;
+    expect(el.values).to.deep.equal([1]);
+
+    el.scale = 'linear';
+    await el.updateComplete;
+
+    expect(el.min).to.equal(0);
+  });
+
+  it('steps through allowed values and reports their labels', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider value="10" allowed-values='[10, {"value": 25, "label": "Quarter"}, 60]'></vcf-slider>`
+    );
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    const listener = oneEvent(el, 'change');
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    const { detail } = await listener;
+
+    expect(detail.values).to.deep.equal([25]);
+    expect(detail.label).to.equal('Quarter');
+    expect(knob.getAttribute('aria-valuetext')).to.equal('Quarter');
+  });
+
+  it('moves to the lowest and highest allowed values with Home and End', async () => {
+    const el: Slider = await fixture(html`<vcf-slider value="25" allowed-values="[10, 25, 60]"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'End' }));
+    await el.updateComplete;
+    expect(el.values).to.deep.equal([60]);
+
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'Home' }));
+    await el.updateComplete;
+    expect(el.values).to.deep.equal([10]);
+  });
+
+  it('draws major, minor and labeled ticks', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider ticks tick-values="[0, 50, 100]" minor-ticks="1" tick-labels='{"50": "Half"}'></vcf-slider>`
+    );
+    await nextFrame();
+    await nextFrame();
+    const labels = Array.from(el.shadowRoot?.querySelectorAll('[part~="tick-label"]') || []);
+
+    expect(el.shadowRoot?.querySelectorAll('[part~="tick-major"]').length).to.equal(3);
+    expect(el.shadowRoot?.querySelectorAll('[part~="tick-minor"]').length).to.equal(2);
+    expect(labels.map(label => label.textContent)).to.deep.equal(['0', 'Half', '100']);
+  });
+
+  it('only draws ticks for allowed values', async () => {
+    const el: Slider = await fixture(html`<vcf-slider ticks allowed-values="[10, 25, 60]"></vcf-slider>`);
+    await nextFrame();
+    await nextFrame();
+
+    expect(el.shadowRoot?.querySelectorAll('[part~="tick-major"]').length).to.equal(3);
+  });
+
+  it('steps the nearest knob towards a track press', async () => {
+    const el: Slider = await fixture(html`<vcf-slider track-click="step" ranges="1" value="20,80"></vcf-slider>`);
+    const container = el.shadowRoot?.querySelector('[part~="container"]') as HTMLElement;
+    const { left, top, width } = container.getBoundingClientRect();
+    const init = { clientX: left + width * 0.7, clientY: top, pointerType: 'mouse', button: 0 };
+    container.dispatchEvent(new PointerEvent('pointerdown', init));
+    await el.updateComplete;
+
+    expect(el.values).to.deep.equal([20, 70]);
+  });
+
+  it('ignores track presses when track-click is none', async () => {
+    const el: Slider = await fixture(html`<vcf-slider track-click="none" value="50"></vcf-slider>`);
+    const container = el.shadowRoot?.querySelector('[part~="container"]') as HTMLElement;
+    const { left, top, width } = container.getBoundingClientRect();
+    const init = { clientX: left + width * 0.9, clientY: top, pointerType: 'mouse', button: 0 };
+    container.dispatchEvent(new PointerEvent('pointerdown', init));
+    await el.updateComplete;
+
+    expect(el.values).to.deep.equal([50]);
+  });
+
+  it('moves draggable ranges between allowed values', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider ranges="1" draggable-range value="10,25" allowed-values="[10, 25, 40, 60]"></vcf-slider>`
+    );
+    const range = el.shadowRoot?.querySelector('[part~="range-0"]') as HTMLElement;
+    range.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    await el.updateComplete;
+    expect(el.values).to.deep.equal([25, 40]);
+
+    range.dispatchEvent(new KeyboardEvent('keydown', { key: 'End' }));
+    await el.updateComplete;
+    expect(el.values).to.deep.equal([40, 60]);
+  });
+
+  it('names draggable ranges after their knobs', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider ranges="1" draggable-range knob-labels='["Min", "Max"]'></vcf-slider>`
+    );
+    const range = el.shadowRoot?.querySelector('[part~="range-0"]') as HTMLElement;
+
+    expect(range.getAttribute('aria-label')).to.equal('Min – Max');
+  });
+
+  it('drags knobs with pointer events and commits the value on release', async () => {
+    const el: Slider = await fixture(html`<vcf-slider value="0"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    const container = el.shadowRoot?.querySelector('[part~="container"]') as HTMLElement;
+    const { left, top, width } = container.getBoundingClientRect();
+    const init = { pointerId: 1, pointerType: 'mouse', button: 0, clientY: top };
+    let committed = false;
+    el.addEventListener('change', () => (committed = true));
+    knob.dispatchEvent(new PointerEvent('pointerdown', { ...init, clientX: left }));
+    knob.dispatchEvent(new PointerEvent('pointermove', { ...init, clientX: left + width / 2 }));
+    await nextFrame();
+
+    expect(el.values).to.deep.equal([50]);
+    expect(el.hasAttribute('dragging')).to.be.true;
+    expect(committed).to.be.false;
+
+    const listener = oneEvent(el, 'change');
+    knob.dispatchEvent(new PointerEvent('pointerup', { ...init, clientX: left + width / 2 }));
+    const { detail } = await listener;
+
+    expect(detail.source).to.equal('pointer');
+    expect(el.hasAttribute('dragging')).to.be.false;
+  });
+
+  it('does not drag knobs with secondary mouse buttons', async () => {
+    const el: Slider = await fixture(html`<vcf-slider value="0"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    const container = el.shadowRoot?.querySelector('[part~="container"]') as HTMLElement;
+    const { left, top, width } = container.getBoundingClientRect();
+    const init = { pointerId: 1, pointerType: 'mouse', button: 2, clientY: top };
+    knob.dispatchEvent(new PointerEvent('pointerdown', { ...init, clientX: left }));
+    knob.dispatchEvent(new PointerEvent('pointermove', { ...init, clientX: left + width / 2 }));
+    await nextFrame();
+
+    expect(el.values).to.deep.equal([0]);
+    expect(el.hasAttribute('dragging')).to.be.false;
+  });
+
+  it('reports programmatic changes after a key press without effect as api changes', async () => {
+    const el: Slider = await fixture(html`<vcf-slider value="100"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    let inputFired = false;
+    el.addEventListener('input', () => (inputFired = true));
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    await el.updateComplete;
+    const listener = oneEvent(el, 'value-changed');
+    el.value = 50;
+    const { detail } = await listener;
+
+    expect(detail.source).to.equal('api');
+    expect(inputFired).to.be.false;
+  });
+
+  it('does not dispatch value-changing when the values stay the same', async () => {
+    const el: Slider = await fixture(html`<vcf-slider value="100"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    let changingFired = false;
+    el.addEventListener('value-changing', () => (changingFired = true));
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    await el.updateComplete;
+
+    expect(changingFired).to.be.false;
+    expect(el.value).to.equal(100);
+  });
+
+  it('keeps the value when value-changing is canceled', async () => {
+    const el: Slider = await fixture(html`<vcf-slider value="50"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    el.addEventListener('value-changing', (e: Event) => e.preventDefault());
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    await el.updateComplete;
+
+    expect(el.value).to.equal(50);
+  });
+
+  it('applies values adjusted in the value-changing event detail', async () => {
+    const el: Slider = await fixture(html`<vcf-slider value="50"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    el.addEventListener('value-changing', (e: Event) => {
+      const { detail } = e as CustomEvent;
+      detail.values = [detail.values[0] + 9];
+    });
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    await el.updateComplete;
+
+    expect(el.value).to.equal(60);
+  });
+
+  it('increases values with ArrowUp and decreases with ArrowDown regardless of direction', async () => {
+    const el: Slider = await fixture(html`<vcf-slider vertical rtl value="50"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowUp' }));
+    await el.updateComplete;
+    expect(el.value).to.equal(51);
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+    await el.updateComplete;
+    expect(el.value).to.equal(49);
+  });
+
+  it('reverses ArrowLeft and ArrowRight when rtl', async () => {
+    const el: Slider = await fixture(html`<vcf-slider rtl value="50"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowLeft' }));
+    await el.updateComplete;
+
+    expect(el.value).to.equal(51);
+  });
+
+  it('moves by the page step with PageUp and Shift + Arrow keys, rounded to step', async () => {
+    const el: Slider = await fixture(html`<vcf-slider step="5" page-step="12" value="0"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'PageUp' }));
+    await el.updateComplete;
+    expect(el.value).to.equal(10);
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight', shiftKey: true }));
+    await el.updateComplete;
+    expect(el.value).to.equal(20);
+  });
+
+  it('moves by the fine step with Alt + Arrow keys without a step mismatch', async () => {
+    const el: Slider = await fixture(html`<vcf-slider step="2" fine-step="0.5" value="10"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight', altKey: true }));
+    await el.updateComplete;
+
+    expect(el.value).to.equal(10.5);
+    expect(el.validity.stepMismatch).to.be.false;
+  });
+
+  it('keeps the minimum distance within the slider range', async () => {
+    const el: Slider = await fixture(html`<vcf-slider ranges="1" value="95,100" min-distance="10"></vcf-slider>`);
+
+    expect(el.values).to.deep.equal([90, 100]);
+  });
+
+  it('merges the tooltips of a range when they overlap', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider ranges="1" value="50,51" tooltips-always-visible tooltip-separator=" - "></vcf-slider>`
+    );
+    const merged = el.shadowRoot?.querySelector('[part~="tooltip-merged-0"]') as HTMLElement;
+    const tooltip = el.shadowRoot?.querySelector('[part~="tooltip-0"]') as HTMLElement;
+
+    expect(merged.classList.contains('hidden')).to.be.false;
+    expect(tooltip.classList.contains('hidden')).to.be.true;
+    expect(merged.textContent?.trim()).to.equal('50 - 51');
+  });
+
+  it('shows separate tooltips again when the knobs move apart', async () => {
+    const el: Slider = await fixture(html`<vcf-slider ranges="1" value="50,51" tooltips-always-visible></vcf-slider>`);
+    el.value = [0, 100];
+    await el.updateComplete;
+    const merged = el.shadowRoot?.querySelector('[part~="tooltip-merged-0"]') as HTMLElement;
+    const tooltip = el.shadowRoot?.querySelector('[part~="tooltip-1"]') as HTMLElement;
+
+    expect(merged.classList.contains('hidden')).to.be.true;
+    expect(tooltip.classList.contains('hidden')).to.be.false;
+  });
+
+  it('merges overlapping tooltips of a vertical slider', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider vertical ranges="1" value="50,51" tooltips-always-visible></vcf-slider>`
+    );
+    const merged = el.shadowRoot?.querySelector('[part~="tooltip-merged-0"]') as HTMLElement;
+
+    expect(merged.classList.contains('hidden')).to.be.false;
+  });
+
+  it('shows tooltips on the side given by tooltipPlacement', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider tooltip-placement="bottom" tooltips-always-visible value="50"></vcf-slider>`
+    );
+
+    expect(el.getAttribute('tooltip-side')).to.equal('bottom');
+  });
+
+  it('uses the default side for placements of the other orientation', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider vertical tooltip-placement="top" tooltips-always-visible value="50"></vcf-slider>`
+    );
+
+    expect(el.getAttribute('tooltip-side')).to.equal('end');
+  });
+
+  it('flips auto placed tooltips when there is no space in the scroll container', async () => {
+    const container: HTMLElement = await fixture(html`
+      <div style="overflow: auto; height: 200px">
+        <vcf-slider style="margin-top: -40px" tooltip-placement="auto" tooltips-always-visible value="50"></vcf-slider>
+      </div>
+    `);
+    const el = container.querySelector('vcf-slider') as Slider;
+    await el.updateComplete;
+
+    expect(el.getAttribute('tooltip-side')).to.equal('bottom');
+  });
+
+  it('keeps auto placed tooltips on top when there is space', async () => {
+    const container: HTMLElement = await fixture(html`
+      <div style="overflow: auto; height: 300px; padding-top: 100px">
+        <vcf-slider tooltip-placement="auto" tooltips-always-visible value="50"></vcf-slider>
+      </div>
+    `);
+    const el = container.querySelector('vcf-slider') as Slider;
+    await el.updateComplete;
+
+    expect(el.getAttribute('tooltip-side')).to.equal('top');
+  });
+
+  it('renders a segment for each range positioned between its knobs', async () => {
+    const el: Slider = await fixture(html`<vcf-slider ranges="2" value="10,20,50,80"></vcf-slider>`);
+    const segments = Array.from(el.shadowRoot?.querySelectorAll('[part~="segment"]') || []) as HTMLElement[];
+
+    expect(segments.length).to.equal(2);
+    expect(segments[1].style.left).to.equal('50%');
+    expect(segments[1].style.width).to.equal('30%');
+  });
+
+  it('fills the segment from the start to a single knob', async () => {
+    const el: Slider = await fixture(html`<vcf-slider value="40"></vcf-slider>`);
+    const segment = el.shadowRoot?.querySelector('[part~="segment-0"]') as HTMLElement;
+
+    expect(segment.style.left).to.equal('0%');
+    expect(segment.style.width).to.equal('40%');
+  });
+
+  it('colors segments with segmentColors and segment custom properties', async () => {
+    const el: Slider = await fixture(html`
+      <vcf-slider
+        ranges="3"
+        segment-colors='["green", "yellow", "red"]'
+        style="--vcf-slider-segment-2-color: blue"
+      ></vcf-slider>
+    `);
+    const segmentColor = (i: number) =>
+      getComputedStyle(el.shadowRoot?.querySelector(`[part~="segment-${i}"]`) as HTMLElement).backgroundColor;
+
+    expect(segmentColor(0)).to.equal('rgb(0, 128, 0)');
+    expect(segmentColor(1)).to.equal('rgb(255, 255, 0)');
+    expect(segmentColor(2)).to.equal('rgb(0, 0, 255)');
+  });
+
+  it('positions point marks and zones on the line', async () => {
+    const el: Slider = await fixture(html`
+      <vcf-slider
+        rtl
+        marks='[{ "value": 25, "label": "Average" }, { "from": 20, "to": 40, "color": "red" }]'
+      ></vcf-slider>
+    `);
+    const mark = el.shadowRoot?.querySelector('[part~="mark-0"]') as HTMLElement;
+    const zone = el.shadowRoot?.querySelector('[part~="zone-0"]') as HTMLElement;
+
+    expect(mark.style.right).to.equal('25%');
+    expect(mark.querySelector('[part~="mark-label"]')?.textContent).to.equal('Average');
+    expect(zone.style.right).to.equal('20%');
+    expect(zone.style.width).to.equal('20%');
+    expect(zone.style.backgroundColor).to.equal('red');
+  });
+
+  it('snaps dragged knobs to nearby marks without a step mismatch', async () => {
+    // Knobs snap to marks within half a knob, 20px on a 400px line
+    const el: Slider = await fixture(html`
+      <vcf-slider
+        style="--vcf-slider-width: 400px; --vcf-slider-knob-size: 20px"
+        step="5"
+        value="0"
+        snap-to-marks
+        marks='[{ "value": 47.5 }]'
+      ></vcf-slider>
+    `);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    const container = el.shadowRoot?.querySelector('[part~="container"]') as HTMLElement;
+    const { left, top, width } = container.getBoundingClientRect();
+    const init = { pointerId: 1, pointerType: 'mouse', button: 0, clientY: top };
+    knob.dispatchEvent(new PointerEvent('pointerdown', { ...init, clientX: left }));
+    knob.dispatchEvent(new PointerEvent('pointermove', { ...init, clientX: left + width * 0.48 }));
+    await nextFrame();
+    knob.dispatchEvent(new PointerEvent('pointerup', { ...init, clientX: left + width * 0.48 }));
+    await el.updateComplete;
+
+    expect(el.values).to.deep.equal([47.5]);
+    expect(el.validity.stepMismatch).to.be.false;
+  });
+
+  it('counts raw histogram values into bins and highlights bars in the selected range', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider ranges="1" value="0,20" bins="10" histogram="[5, 15, 15, 95]"></vcf-slider>`
+    );
+    const bars = Array.from(el.shadowRoot?.querySelectorAll('[part~="histogram-bar"]') || []) as SVGRectElement[];
+    const heights = bars.map(bar => Number(bar.getAttribute('height')));
+    const selected = bars.map(bar => bar.matches('[part~="histogram-bar-selected"]'));
+
+    expect(bars.length).to.equal(10);
+    expect(heights.indexOf(Math.max(...heights))).to.equal(1);
+    expect(heights[2]).to.equal(0);
+    expect(selected).to.deep.equal([true, true, false, false, false, false, false, false, false, false]);
+  });
+
+  it('renders pre-binned histogram counts', async () => {
+    const el: Slider = await fixture(html`
+      <vcf-slider histogram='[{ "from": 0, "to": 50, "count": 3 }, { "from": 50, "to": 100, "count": 1 }]'></vcf-slider>
+    `);
+
+    expect(el.shadowRoot?.querySelectorAll('[part~="histogram-bar"]').length).to.equal(2);
+  });
+
+  it('follows fast drags along a partial arc but not across its gap', async () => {
+    const el: Slider = await fixture(
+      html`<vcf-slider radial start-angle="-135" end-angle="135" value="10"></vcf-slider>`
+    );
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    const container = el.shadowRoot?.querySelector('[part~="container"]') as HTMLElement;
+    const { left, top, width, height } = container.getBoundingClientRect();
+    const pointerAt = (angle: number) => {
+      const radians = (angle * Math.PI) / 180;
+      return {
+        pointerId: 1,
+        pointerType: 'mouse',
+        button: 0,
+        clientX: left + width / 2 + (Math.sin(radians) * width) / 4,
+        clientY: top + height / 2 - (Math.cos(radians) * height) / 4,
+      };
+    };
+    knob.dispatchEvent(new PointerEvent('pointerdown', pointerAt(-108)));
+    // 70% of the arc, reached along the arc
+    knob.dispatchEvent(new PointerEvent('pointermove', pointerAt(54)));
+    await el.updateComplete;
+    expect(el.values).to.deep.equal([70]);
+
+    knob.dispatchEvent(new PointerEvent('pointermove', pointerAt(-81)));
+    await el.updateComplete;
+    expect(el.values).to.deep.equal([20]);
+
+    // Pointer in the gap closer to the end of the arc, reached through the gap
+    knob.dispatchEvent(new PointerEvent('pointermove', pointerAt(170)));
+    await el.updateComplete;
+    expect(el.values).to.deep.equal([20]);
+  });
+
+  it('uses the default step for unknown date step units', async () => {
+    const warn = console.warn;
+    const warnings: unknown[] = [];
+    console.warn = (message: unknown) => warnings.push(message);
+    const el: Slider = await fixture(
+      html`<vcf-slider
+        type="date"
+        min="2024-01-01"
+        max="2024-12-31"
+        step="2 fortnights"
+        value="2024-03-01"
+      ></vcf-slider>`
+    );
+    console.warn = warn;
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    await el.updateComplete;
+
+    expect(warnings.length).to.equal(1);
+    expect(el.value).to.equal('2024-03-02');
+  });
+
+  it('steps through several allowed values with stepUp and stepDown', async () => {
+    const el: Slider = await fixture(html`<vcf-slider allowed-values="[1, 2, 4, 8, 16]" value="1"></vcf-slider>`);
+    el.stepUp(0, 3);
+    await el.updateComplete;
+    expect(el.value).to.equal(8);
+
+    el.stepDown(0, 2);
+    await el.updateComplete;
+    expect(el.value).to.equal(2);
+  });
+
+  it('ignores stepUp and stepDown without a positive count', async () => {
+    const el: Slider = await fixture(html`<vcf-slider value="50"></vcf-slider>`);
+    el.stepUp(0, 0);
+    el.stepDown(0, -2);
+    await el.updateComplete;
+
+    expect(el.value).to.equal(50);
+  });
+
+  it('drags knobs to allowed values closer together than step', async () => {
+    const el: Slider = await fixture(html`<vcf-slider max="0.3" allowed-values="[0.1, 0.2, 0.3]"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    const container = el.shadowRoot?.querySelector('[part~="container"]') as HTMLElement;
+    const { left, top, width } = container.getBoundingClientRect();
+    const knobBounds = knob.getBoundingClientRect();
+    const init = { pointerId: 1, pointerType: 'mouse', button: 0, clientY: top };
+    const clientX = knobBounds.left + knobBounds.width / 2;
+    knob.dispatchEvent(new PointerEvent('pointerdown', { ...init, clientX }));
+    knob.dispatchEvent(new PointerEvent('pointermove', { ...init, clientX: left + (width * 2) / 3 }));
+    await nextFrame();
+    knob.dispatchEvent(new PointerEvent('pointerup', { ...init, clientX: left + (width * 2) / 3 }));
+
+    expect(el.values).to.deep.equal([0.2]);
+  });
+
+  it('disables touch panning on the track when track presses start a drag', async () => {
+    const el: Slider = await fixture(html`<vcf-slider vertical></vcf-slider>`);
+    const container = el.shadowRoot?.querySelector('[part~="container"]') as HTMLElement;
+    expect(getComputedStyle(container).touchAction).to.equal('none');
+
+    el.trackClick = 'step';
+    await el.updateComplete;
+    expect(getComputedStyle(container).touchAction).to.equal('pan-x');
+  });
+
+  it('limits, snaps and sorts values adjusted in the value-changing event detail', async () => {
+    const el: Slider = await fixture(html`<vcf-slider ranges="1" step="5" value="20,40"></vcf-slider>`);
+    const knob = el.shadowRoot?.querySelector('[part~="knob-0"]') as HTMLElement;
+    el.addEventListener('value-changing', (e: Event) => {
+      (e as CustomEvent).detail.values = [200, 12.4];
+    });
+    knob.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    await el.updateComplete;
+
+    expect(el.values).to.deep.equal([10, 100]);
+  });
+
+  it('keeps tooltips on top by default when there is no space above', async () => {
+    const container: HTMLElement = await fixture(html`
+      <div style="overflow: auto; height: 200px">
+        <vcf-slider style="margin-top: -40px" tooltips-always-visible value="50"></vcf-slider>
+      </div>
+    `);
+    const el = container.querySelector('vcf-slider') as Slider;
+    el.value = 60;
+    await el.updateComplete;
+
+    expect(el.getAttribute('tooltip-side')).to.equal('top');
+  });
+
+  it('clamps values typed in input fields to the slider range', async () => {
+    const el: Slider = await fixture(html`<vcf-slider inputs ranges="1" value="10,40"></vcf-slider>`);
+    const input = el.shadowRoot?.querySelector('[part~="input-1"]') as HTMLInputElement;
+    input.value = '150';
+    input.dispatchEvent(new Event('change'));
+    await el.updateComplete;
+
+    expect(el.values).to.deep.equal([10, 100]);
+    expect(input.hasAttribute('invalid')).to.be.false;
+  });
+
+  it('marks input fields with entries that are not values as invalid', async () => {
+    const el: Slider = await fixture(html`<vcf-slider inputs value="10"></vcf-slider>`);
+    const input = el.shadowRoot?.querySelector('[part~="input-0"]') as HTMLInputElement;
+    input.value = 'abc';
+    input.dispatchEvent(new Event('change'));
+    await el.updateComplete;
+
+    expect(el.value).to.equal(10);
+    expect(input.getAttribute('aria-invalid')).to.equal('true');
+  });
+
+  it('applies stepUp through several allowed values as a single change', async () => {
+    const el: Slider = await fixture(html`<vcf-slider allowed-values="[1, 2, 4, 8, 16]" value="1"></vcf-slider>`);
+    let changingCount = 0;
+    el.addEventListener('value-changing', (e: Event) => {
+      changingCount++;
+      e.preventDefault();
+    });
+    el.stepUp(0, 3);
+    await el.updateComplete;
+
+    expect(changingCount).to.equal(1);
+    expect(el.value).to.equal(1);
+  });
 });
@@ -0,0 +1,3 @@
+import './src/vcf-slider-2d.js';
+
+export { Slider2D as VcfSlider2D } from './src/vcf-slider-2d.js';